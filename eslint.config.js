@@ -4,7 +4,6 @@ import prettier from 'eslint-config-prettier';
 
 export default ts.config(js.configs.recommended, ts.configs.recommendedTypeChecked, prettier, {
   files: ['src/**/*.ts'],
-  ignores: ['src/legacy/**'],
   languageOptions: {
     parserOptions: {
       project: './tsconfig.json'
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Turn } from '../engine/turn.js';
+import { createBook } from './helpers.js';
+
+const press = (target: HTMLElement, key: string): KeyboardEvent => {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+  target.dispatchEvent(event);
+  return event;
+};
+
+describe('Accessibility', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(20);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  it('should stay off unless requested', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    expect(turn.accessibility).toBeUndefined();
+    expect(book.hasAttribute('role')).toBe(false);
+  });
+
+  it('should describe the book and its pages', () => {
+    const turn = new Turn(book, { width: 800, height: 400, accessibility: { label: 'Catalog' } });
+    const page = turn.state.pageObjs.get(3)!;
+
+    expect(book.getAttribute('aria-roledescription')).toBe('book');
+    expect(book.getAttribute('aria-label')).toBe('Catalog');
+    expect(book.tabIndex).toBe(0);
+    expect(page.getAttribute('role')).toBe('group');
+    expect(page.getAttribute('aria-label')).toBe('Page 3 of 20');
+  });
+
+  it('should keep an existing accessible name', () => {
+    book.setAttribute('aria-label', 'Spring issue');
+    new Turn(book, { width: 800, height: 400, accessibility: true });
+    expect(book.getAttribute('aria-label')).toBe('Spring issue');
+  });
+
+  it('should hide pages outside the view', () => {
+    const turn = new Turn(book, { width: 800, height: 400, page: 4, accessibility: true });
+
+    expect(turn.state.pageObjs.get(4)!.hasAttribute('aria-hidden')).toBe(false);
+    expect(turn.state.pageObjs.get(5)!.hasAttribute('inert')).toBe(false);
+    expect(turn.state.pageObjs.get(6)!.getAttribute('aria-hidden')).toBe('true');
+    expect(turn.state.pageObjs.get(6)!.hasAttribute('inert')).toBe(true);
+  });
+
+  it('should announce the new spread after a turn', () => {
+    const turn = new Turn(book, { width: 800, height: 400, accessibility: true });
+    turn.page(4);
+    vi.runAllTimers();
+
+    expect(turn.accessibility!.liveRegion.getAttribute('aria-live')).toBe('polite');
+    expect(turn.accessibility!.liveRegion.textContent).toBe('Pages 4–5 of 20');
+  });
+
+  it('should navigate with the keyboard', () => {
+    const turn = new Turn(book, { width: 800, height: 400, accessibility: true });
+
+    expect(press(book, 'ArrowRight').defaultPrevented).toBe(true);
+    vi.runAllTimers();
+    expect(turn.page()).toBe(2);
+
+    press(book, 'End');
+    vi.runAllTimers();
+    expect(turn.page()).toBe(20);
+
+    press(book, 'PageUp');
+    vi.runAllTimers();
+    expect(turn.view()).toEqual([18, 19]);
+
+    press(book, 'Home');
+    vi.runAllTimers();
+    expect(turn.page()).toBe(1);
+  });
+
+  it('should swap the arrow keys in rtl books', () => {
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      direction: 'rtl',
+      accessibility: true
+    });
+
+    press(book, 'ArrowLeft');
+    vi.runAllTimers();
+    expect(turn.page()).toBe(2);
+
+    press(book, 'ArrowRight');
+    vi.runAllTimers();
+    expect(turn.page()).toBe(1);
+  });
+
+  it('should leave keys alone in form fields and with modifiers', () => {
+    const turn = new Turn(book, { width: 800, height: 400, accessibility: true });
+    const input = document.createElement('input');
+    turn.state.pageObjs.get(1)!.appendChild(input);
+
+    expect(press(input, 'ArrowRight').defaultPrevented).toBe(false);
+    book.dispatchEvent(new KeyboardEvent('keydown', { key: 'End', ctrlKey: true }));
+    vi.runAllTimers();
+    expect(turn.page()).toBe(1);
+  });
+
+  it('should move focus into the new spread when the book has focus', () => {
+    const turn = new Turn(book, { width: 800, height: 400, accessibility: true });
+    book.focus();
+
+    press(book, 'ArrowRight');
+    vi.runAllTimers();
+    expect(document.activeElement).toBe(turn.state.pageObjs.get(2));
+  });
+
+  it('should not steal focus from outside the book', () => {
+    const turn = new Turn(book, { width: 800, height: 400, accessibility: true });
+    const button = document.createElement('button');
+    document.body.appendChild(button);
+    button.focus();
+
+    turn.next();
+    vi.runAllTimers();
+    expect(document.activeElement).toBe(button);
+    button.remove();
+  });
+
+  it('should remove its attributes on destroy', () => {
+    const turn = new Turn(book, { width: 800, height: 400, accessibility: true });
+    const page = turn.state.pageObjs.get(5)!;
+    turn.destroy();
+
+    expect(book.hasAttribute('role')).toBe(false);
+    expect(book.hasAttribute('tabindex')).toBe(false);
+    expect(page.hasAttribute('aria-hidden')).toBe(false);
+    expect(book.querySelector('.turn-live-region')).toBeNull();
+  });
+});
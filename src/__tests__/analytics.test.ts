@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { attachAnalytics, createTurn } from '../index.js';
+import type { AnalyticsRecord, TurnInstance } from '../types.js';
+import { createBook, pointerEvent } from './helpers.js';
+
+const setVisibility = (state: DocumentVisibilityState): void => {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('Reading-session analytics', () => {
+  let book: HTMLElement;
+  let instance: TurnInstance;
+  let records: AnalyticsRecord[];
+  let destroyed: boolean;
+  const sink = vi.fn((batch: readonly AnalyticsRecord[]) => records.push(...batch));
+
+  const ofType = <T extends AnalyticsRecord['type']>(type: T) =>
+    records.filter(
+      (record): record is Extract<AnalyticsRecord, { type: T }> => record.type === type
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    records = [];
+    sink.mockClear();
+    book = createBook(10);
+    instance = createTurn(book, { width: 800, height: 400, duration: 100, accessibility: true });
+    destroyed = false;
+    book.addEventListener('destroyed', () => (destroyed = true));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    if (!destroyed) instance.destroy();
+    Reflect.deleteProperty(document, 'visibilityState');
+    book.remove();
+  });
+
+  it('should time the pages in view and record what set off each turn', () => {
+    const tracker = attachAnalytics(instance, { sink, flushInterval: 0 });
+    vi.advanceTimersByTime(1000);
+
+    void instance.next();
+    vi.runAllTimers();
+    book.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true }));
+    vi.runAllTimers();
+    expect(sink).not.toHaveBeenCalled();
+
+    tracker.detach();
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(records[0]).toMatchObject({ type: 'session-start', reason: 'attach', view: [1] });
+    expect(ofType('turn')).toMatchObject([
+      { from: 1, to: 2, source: 'api' },
+      { from: 2, to: 4, source: 'keyboard' }
+    ]);
+    expect(ofType('page-view').map(({ page }) => page)).toEqual([1, 2, 3, 4, 5]);
+    expect(ofType('page-view')[0].duration).toBeGreaterThanOrEqual(1000);
+    expect(records[records.length - 1]).toMatchObject({ type: 'session-end', reason: 'detach' });
+    expect(records.every(({ session }) => session === 1)).toBe(true);
+
+    void instance.next();
+    vi.runAllTimers();
+    expect(sink).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tell drags from clicks and record pages let go', () => {
+    attachAnalytics(instance, { sink, flushInterval: 0 });
+
+    book.dispatchEvent(pointerEvent('pointerdown', 395, 395));
+    document.dispatchEvent(pointerEvent('pointermove', 300, 300));
+    vi.advanceTimersByTime(500);
+    document.dispatchEvent(pointerEvent('pointerup', 300, 300));
+    vi.runAllTimers();
+    expect(instance.page()).toBe(1);
+
+    book.dispatchEvent(pointerEvent('pointerdown', 395, 395));
+    document.dispatchEvent(pointerEvent('pointermove', -300, 300));
+    vi.advanceTimersByTime(500);
+    document.dispatchEvent(pointerEvent('pointerup', -300, 300));
+    vi.runAllTimers();
+
+    book.dispatchEvent(pointerEvent('pointerdown', 395, 395));
+    document.dispatchEvent(pointerEvent('pointermove', 390, 390));
+    document.dispatchEvent(pointerEvent('pointerup', 390, 390));
+    vi.runAllTimers();
+    expect(instance.page()).toBe(4);
+
+    instance.destroy();
+    expect(ofType('drag-abort')).toMatchObject([{ page: 1 }]);
+    expect(ofType('turn').map(({ source }) => source)).toEqual(['drag', 'click']);
+    expect(records[records.length - 1]).toMatchObject({ type: 'session-end', reason: 'destroy' });
+  });
+
+  it('should end the session while the page is hidden', () => {
+    attachAnalytics(instance, { sink, flushInterval: 0 });
+    vi.advanceTimersByTime(2000);
+
+    setVisibility('hidden');
+    expect(records.map(({ type }) => type)).toEqual(['session-start', 'page-view', 'session-end']);
+    expect(records[2]).toMatchObject({ reason: 'hidden', duration: 2000 });
+
+    vi.advanceTimersByTime(5000);
+    setVisibility('visible');
+    vi.advanceTimersByTime(1000);
+    instance.destroy();
+
+    expect(records.slice(3)).toMatchObject([
+      { type: 'session-start', reason: 'visible', session: 2, view: [1] },
+      { type: 'page-view', page: 1, duration: 1000, session: 2 },
+      { type: 'session-end', reason: 'destroy', duration: 1000, session: 2 }
+    ]);
+  });
+
+  it('should send records in batches and on an interval', () => {
+    const tracker = attachAnalytics(instance, { sink, batchSize: 4, flushInterval: 5000 });
+    expect(() => attachAnalytics(instance, { sink })).toThrow('already attached');
+
+    instance.page(4);
+    vi.advanceTimersByTime(1000);
+    expect(sink).not.toHaveBeenCalled();
+
+    instance.page(6);
+    vi.advanceTimersByTime(1000);
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(sink.mock.calls[0][0]).toHaveLength(4);
+
+    vi.advanceTimersByTime(3000);
+    expect(sink).toHaveBeenCalledTimes(2);
+    expect(sink.mock.calls[1][0].map(({ type }) => type)).toEqual(['page-view', 'page-view']);
+
+    tracker.flush();
+    expect(sink).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAnimation, easingFunction, easings } from '../utils/animation.js';
+import { Turn } from '../engine/turn.js';
+import type { AnimationClock } from '../types.js';
+import { createBook } from './helpers.js';
+
+/** A clock that only moves when `tick` is called, running the frames requested so far */
+const createManualClock = (): AnimationClock & { tick: (ms: number) => void } => {
+  let time = 0;
+  let callbacks: (() => void)[] = [];
+  return {
+    now: () => time,
+    requestFrame: callback => {
+      callbacks.push(callback);
+      return () => {
+        callbacks = callbacks.filter(other => other !== callback);
+      };
+    },
+    tick: ms => {
+      time += ms;
+      const due = callbacks;
+      callbacks = [];
+      due.forEach(callback => callback());
+    }
+  };
+};
+
+describe('Animation', () => {
+  it('should show the values for the time elapsed on the clock', () => {
+    const clock = createManualClock();
+    const frames: number[] = [];
+    const complete = vi.fn();
+    const animation = createAnimation({
+      from: [0],
+      to: [100],
+      duration: 100,
+      easing: easings.linear,
+      clock,
+      frame: ([value]) => frames.push(value),
+      complete
+    });
+
+    animation.start();
+    clock.tick(25);
+    clock.tick(50);
+    expect(frames).toEqual([0, 25, 75]);
+    expect(animation.running).toBe(true);
+
+    clock.tick(50);
+    expect(frames[frames.length - 1]).toBe(100);
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(animation.running).toBe(false);
+  });
+
+  it('should stop requesting frames once stopped', () => {
+    const clock = createManualClock();
+    const frame = vi.fn();
+    const animation = createAnimation({ from: [0], to: [1], duration: 100, clock, frame });
+
+    animation.start();
+    animation.stop();
+    clock.tick(200);
+    expect(frame).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve easing presets and custom functions', () => {
+    const custom = (t: number): number => t * t;
+    expect(easingFunction(custom)).toBe(custom);
+    Object.values(easings).forEach(easing => {
+      expect(easing(0)).toBeCloseTo(0);
+      expect(easing(1)).toBeCloseTo(1);
+    });
+    expect(easings['ease-in'](0.5)).toBeLessThan(0.5);
+    expect(easings['ease-out'](0.5)).toBeGreaterThan(0.5);
+    expect(() => easingFunction('bounce' as 'linear')).toThrow('is not a value for easing');
+  });
+
+  it('should turn pages on an injected clock with the given easing', () => {
+    const clock = createManualClock();
+    const easing = vi.fn((t: number) => t);
+    const book = createBook(6);
+    const turn = new Turn(book, { width: 800, height: 400, duration: 300, easing, clock });
+
+    turn.page(3);
+    expect(turn.animating()).toBe(true);
+    for (let elapsed = 0; elapsed < 300; elapsed += 100) clock.tick(100);
+
+    expect(easing).toHaveBeenCalledWith(1);
+    expect(turn.animating()).toBe(false);
+    expect(turn.view()).toEqual([2, 3]);
+    book.remove();
+  });
+
+  it('should finish a released page at the completion speed', () => {
+    const clock = createManualClock();
+    const book = createBook(6);
+    const turn = new Turn(book, { width: 800, height: 400, completionSpeed: 10, clock });
+    const flip = turn.state.pages.get(1)!;
+
+    flip.showFoldedPage({ corner: 'br', x: 300, y: 350 });
+    flip.hideFoldedPage(true);
+    expect(turn.animating()).toBe(true);
+
+    clock.tick(20);
+    expect(turn.animating()).toBe(false);
+    book.remove();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTurn } from '../index.js';
+import { Turn } from '../engine/turn.js';
+import { createBook } from './helpers.js';
+
+const pointerEvent = (type: string, pointerType = 'mouse'): PointerEvent =>
+  new PointerEvent(type, { pointerId: 1, pointerType, bubbles: true });
+
+describe('Peel', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(10);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  it('should lift and drop a corner', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    const start = vi.fn();
+    book.addEventListener('start', start);
+    const flip = turn.state.pages.get(1)!;
+
+    turn.peel('br', 40);
+    vi.runAllTimers();
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(flip.state.point).toMatchObject({ corner: 'br', x: 360, y: 360 });
+
+    turn.unpeel();
+    vi.runAllTimers();
+    expect(flip.state.point).toBeNull();
+    expect(turn.page()).toBe(1);
+  });
+
+  it('should peel the forward corner by default and skip corners no page owns', () => {
+    const turn = new Turn(book, { width: 800, height: 400, direction: 'rtl' });
+
+    turn.peel('br');
+    expect(turn.animating()).toBe(false);
+
+    turn.peel();
+    expect(turn.state.pages.get(1)!.state.point?.corner).toBe('bl');
+    expect(() => turn.peel('xx' as 'br')).toThrow('is not a value for corner');
+  });
+
+  it('should not peel a disabled book', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    turn.disable(true);
+    turn.peel('br');
+    expect(turn.animating()).toBe(false);
+  });
+
+  it('should peel after a period without activity and drop it on activity', () => {
+    const turn = new Turn(book, { width: 800, height: 400, autoPeel: { delay: 1000 } });
+    const flip = turn.state.pages.get(1)!;
+
+    vi.advanceTimersByTime(900);
+    book.dispatchEvent(new KeyboardEvent('keydown'));
+    vi.advanceTimersByTime(900);
+    expect(flip.state.point).toBeNull();
+
+    vi.advanceTimersByTime(200);
+    expect(flip.state.point?.corner).toBe('br');
+
+    book.dispatchEvent(new KeyboardEvent('keydown'));
+    vi.advanceTimersByTime(900);
+    expect(flip.state.point).toBeNull();
+
+    turn.destroy();
+    vi.runAllTimers();
+  });
+});
+
+describe('Autoplay', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(6);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  it('should turn a spread every interval and stop at the end', async () => {
+    const instance = createTurn(book, { width: 800, height: 400, duration: 100 });
+    const player = instance.autoplay({ interval: 1000 });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(instance.page()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(instance.page()).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(instance.view()).toEqual([6, 0]);
+    expect(player.playing).toBe(false);
+  });
+
+  it('should go back to the first page when looping', async () => {
+    const instance = createTurn(book, { width: 800, height: 400, page: 6, duration: 100 });
+    instance.autoplay({ interval: 500, loop: true });
+
+    await vi.advanceTimersByTimeAsync(700);
+    expect(instance.page()).toBe(1);
+  });
+
+  it('should hold off while paused or hovered', async () => {
+    const instance = createTurn(book, { width: 800, height: 400, duration: 100 });
+    const player = instance.autoplay({ interval: 500 });
+
+    player.pause();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(instance.page()).toBe(1);
+
+    player.resume();
+    book.dispatchEvent(pointerEvent('pointerenter'));
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(instance.page()).toBe(1);
+    expect(player.playing).toBe(false);
+
+    book.dispatchEvent(pointerEvent('pointerleave'));
+    await vi.advanceTimersByTimeAsync(700);
+    expect(instance.page()).toBe(2);
+  });
+
+  it('should ignore hovering when pauseOnHover is off and replace a running slideshow', async () => {
+    const instance = createTurn(book, { width: 800, height: 400, duration: 100 });
+    const first = instance.autoplay({ interval: 500 });
+    instance.autoplay({ interval: 300, pauseOnHover: false });
+    expect(first.playing).toBe(false);
+
+    book.dispatchEvent(pointerEvent('pointerenter'));
+    await vi.advanceTimersByTimeAsync(450);
+    expect(instance.page()).toBe(2);
+
+    instance.destroy();
+    await vi.advanceTimersByTimeAsync(2000);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTurn } from '../index.js';
+import type { TurnInstance } from '../types.js';
+import { createBook } from './helpers.js';
+
+const namedPage = (id: string, label?: string): HTMLElement => {
+  const page = document.createElement('div');
+  page.dataset.pageId = id;
+  if (label) page.dataset.pageLabel = label;
+  return page;
+};
+
+describe('Named pages and bookmarks', () => {
+  let book: HTMLElement;
+  let instance: TurnInstance;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(4);
+    book.children[2].setAttribute('data-page-id', 'chapter-1');
+    book.children[2].setAttribute('data-page-label', 'Chapter 1');
+    instance = createTurn(book, { width: 800, height: 400 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    instance.destroy();
+    book.remove();
+  });
+
+  it('should read ids and labels from data attributes and addPage options', () => {
+    instance.addPage(document.createElement('div'), 5, { id: 'chapter-2', label: 'Chapter 2' });
+    instance.addPage(namedPage('ignored', 'Ignored'), 6, { label: 'Epilogue' });
+
+    expect(instance.toc()).toEqual([
+      { page: 3, id: 'chapter-1', label: 'Chapter 1' },
+      { page: 5, id: 'chapter-2', label: 'Chapter 2' },
+      { page: 6, id: 'ignored', label: 'Epilogue' }
+    ]);
+  });
+
+  it('should go to a page by id, following pages as they move', async () => {
+    instance.addPage(namedPage('preface'), 1);
+    expect(instance.toc().map(entry => entry.page)).toEqual([1, 4]);
+
+    await instance.goTo('chapter-1', { animate: false });
+    expect(instance.page()).toBe(4);
+
+    instance.removePage(1);
+    await instance.goTo('chapter-1', { animate: false });
+    expect(instance.page()).toBe(3);
+  });
+
+  it('should reject ids no page has', async () => {
+    await expect(instance.goTo('chapter-9')).rejects.toBeInstanceOf(RangeError);
+    expect(() => instance.addBookmark('chapter-9')).toThrow(RangeError);
+  });
+
+  it('should add, list and remove bookmarks with events', () => {
+    const added = vi.fn();
+    const removed = vi.fn();
+    instance.on('bookmarkadd', added);
+    instance.on('bookmarkremove', removed);
+
+    instance.addBookmark(4, 'The end');
+    instance.addBookmark('chapter-1');
+    expect(instance.bookmarks()).toEqual([
+      { page: 3, label: 'Chapter 1' },
+      { page: 4, label: 'The end' }
+    ]);
+    expect(added).toHaveBeenLastCalledWith({ page: 3, label: 'Chapter 1' });
+
+    instance.removeBookmark(4);
+    instance.removeBookmark(2);
+    expect(removed).toHaveBeenCalledTimes(1);
+    expect(removed).toHaveBeenCalledWith({ page: 4, label: 'The end' });
+    expect(() => instance.addBookmark(9)).toThrow(RangeError);
+  });
+
+  it('should keep bookmarks on their pages as pages are inserted and removed', () => {
+    const removed = vi.fn();
+    instance.on('bookmarkremove', removed);
+    instance.addBookmark(2);
+    instance.addBookmark(3);
+
+    instance.addPage(document.createElement('div'), 1);
+    expect(instance.bookmarks().map(bookmark => bookmark.page)).toEqual([3, 4]);
+
+    instance.removePage(3);
+    expect(instance.bookmarks()).toEqual([{ page: 3, label: 'Chapter 1' }]);
+    expect(removed).toHaveBeenCalledWith({ page: 3 });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { createNavigator, definePageTurn, PageTurnElement } from '../index.js';
+import { getTurn } from '../engine/turn.js';
+
+const createElement = (pages: number, attributes: Record<string, string> = {}): PageTurnElement => {
+  const element = document.createElement('page-turn');
+  Object.entries({ width: '800', height: '400', ...attributes }).forEach(([name, value]) => {
+    element.setAttribute(name, value);
+  });
+  for (let i = 1; i <= pages; i++) {
+    const page = document.createElement('div');
+    page.textContent = `Page ${i}`;
+    element.appendChild(page);
+  }
+  return element;
+};
+
+/** Lets the MutationObserver deliver its records */
+const flushMutations = (): Promise<void> => Promise.resolve();
+
+describe('<page-turn>', () => {
+  let element: PageTurnElement;
+
+  beforeAll(() => {
+    definePageTurn();
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    element.remove();
+  });
+
+  it('should register the element once', () => {
+    definePageTurn();
+    element = document.createElement('page-turn');
+    expect(customElements.get('page-turn')).toBe(PageTurnElement);
+    expect(element).toBeInstanceOf(PageTurnElement);
+  });
+
+  it('should create the book from its attributes when connected', () => {
+    element = createElement(10, { display: 'single', page: '3', duration: '200' });
+    expect(getTurn(element)).toBeUndefined();
+
+    document.body.appendChild(element);
+    const turn = getTurn(element)!;
+    expect(element.pages()).toBe(10);
+    expect(element.page()).toBe(3);
+    expect(element.display()).toBe('single');
+    expect(element.size()).toEqual({ width: 800, height: 400 });
+    expect(turn.state.opts.duration).toBe(200);
+  });
+
+  it('should follow attribute changes', () => {
+    element = createElement(10);
+    document.body.appendChild(element);
+
+    element.setAttribute('page', '6');
+    vi.runAllTimers();
+    expect(element.page()).toBe(6);
+
+    element.setAttribute('width', '600');
+    expect(element.size()).toEqual({ width: 600, height: 400 });
+
+    element.setAttribute('display', 'single');
+    expect(element.display()).toBe('single');
+  });
+
+  it('should turn children added later into pages', async () => {
+    element = createElement(4);
+    document.body.appendChild(element);
+
+    const page = document.createElement('section');
+    element.appendChild(page);
+    await flushMutations();
+
+    expect(element.pages()).toBe(5);
+    expect(getTurn(element)!.state.pageObjs.get(5)).toBe(page);
+  });
+
+  it('should open the book when its children come after it is connected', async () => {
+    element = createElement(0, { page: '3' });
+    document.body.appendChild(element);
+    expect(element.page()).toBe(0);
+
+    for (let i = 1; i <= 4; i++) element.appendChild(document.createElement('div'));
+    await flushMutations();
+
+    expect(element.pages()).toBe(4);
+    expect(element.view()).toEqual([2, 3]);
+    expect(getTurn(element)!.state.pageWrap.get(3)!.style.display).toBe('');
+  });
+
+  it('should remove pages taken out of the element', async () => {
+    element = createElement(6);
+    document.body.appendChild(element);
+    const second = getTurn(element)!.state.pageObjs.get(2)!;
+
+    second.remove();
+    await flushMutations();
+
+    expect(element.pages()).toBe(5);
+    expect(getTurn(element)!.state.pageObjs.get(2)?.textContent).toBe('Page 3');
+  });
+
+  it('should leave the pages alone while turning', async () => {
+    element = createElement(10);
+    document.body.appendChild(element);
+
+    element.page(8);
+    vi.runAllTimers();
+    await flushMutations();
+
+    expect(element.pages()).toBe(10);
+    expect(element.page()).toBe(8);
+  });
+
+  it('should fire turned, first and last on the element', () => {
+    element = createElement(4);
+    document.body.appendChild(element);
+    const turned = vi.fn();
+    const last = vi.fn();
+    element.addEventListener('turned', event => {
+      turned(event.detail);
+    });
+    element.addEventListener('last', last);
+
+    element.page(4);
+    vi.runAllTimers();
+
+    expect(turned).toHaveBeenLastCalledWith({ page: 4, view: [4, 0] });
+    expect(last).toHaveBeenCalled();
+  });
+
+  it('should expose awaitable navigation', async () => {
+    element = createElement(10);
+    document.body.appendChild(element);
+
+    await element.goTo(5, { animate: false });
+    expect(element.view()).toEqual([4, 5]);
+  });
+
+  it('should destroy the book when disconnected and restore its page when reconnected', () => {
+    element = createElement(10);
+    document.body.appendChild(element);
+    element.page(5);
+    vi.runAllTimers();
+
+    element.remove();
+    expect(getTurn(element)).toBeUndefined();
+    expect(element.children).toHaveLength(10);
+    expect(() => element.page()).toThrow();
+
+    document.body.appendChild(element);
+    expect(element.page()).toBe(5);
+    expect(element.pages()).toBe(10);
+  });
+
+  it('should stand in for its book in createNavigator and the other add-ons', () => {
+    element = createElement(6);
+    expect(() => createNavigator(element, document.body)).toThrow('a connected <page-turn>');
+
+    document.body.appendChild(element);
+    const navigator = createNavigator(element, document.body);
+    expect(navigator.element.querySelectorAll('button')).toHaveLength(4);
+    navigator.destroy();
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTurn, TurnCancelledError } from '../index.js';
+import { Turn } from '../engine/turn.js';
+import { createBook, pointerEvent } from './helpers.js';
+
+/** Grabs the bottom-right corner of page 1 and lets go of it past the spine */
+const dragPageOver = (book: HTMLElement): void => {
+  book.dispatchEvent(pointerEvent('pointerdown', 395, 395));
+  document.dispatchEvent(pointerEvent('pointermove', -300, 300));
+  document.dispatchEvent(pointerEvent('pointerup', -300, 300));
+};
+
+describe('Turn guards', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(10);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  it('should keep the page when a turning handler prevents it', () => {
+    const turned = vi.fn();
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      when: {
+        turning: ({ page, preventDefault }) => {
+          if (page > 5) preventDefault();
+        },
+        turned
+      }
+    });
+    turned.mockClear();
+
+    turn.page(6);
+    vi.runAllTimers();
+    expect(turn.page()).toBe(1);
+    expect(turned).not.toHaveBeenCalled();
+
+    turn.page(4);
+    vi.runAllTimers();
+    expect(turn.page()).toBe(4);
+  });
+
+  it('should open on the first page given even when a turning handler prevents it', () => {
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      page: 8,
+      when: {
+        turning: ({ page, preventDefault }) => {
+          if (page > 5) preventDefault();
+        }
+      }
+    });
+    expect(turn.page()).toBe(8);
+    expect(turn.view()).toEqual([8, 9]);
+
+    turn.removePage(10);
+    turn.removePage(9);
+    turn.removePage(8);
+    expect(turn.page()).toBe(7);
+  });
+
+  it('should keep a page flat when a start handler prevents it', () => {
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      when: { start: ({ preventDefault }) => preventDefault() }
+    });
+
+    dragPageOver(book);
+    vi.runAllTimers();
+    expect(turn.page()).toBe(1);
+    expect(turn.animating()).toBe(false);
+  });
+
+  it('should pass the current and target pages to beforeTurn', () => {
+    const beforeTurn = vi.fn(() => true);
+    const turn = new Turn(book, { width: 800, height: 400, beforeTurn });
+    expect(beforeTurn).not.toHaveBeenCalled();
+
+    turn.next();
+    expect(beforeTurn).toHaveBeenCalledWith(1, 2);
+  });
+
+  it('should block turns past a page when beforeTurn returns false', () => {
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      beforeTurn: (_from, to) => to <= 5
+    });
+
+    turn.page(8);
+    vi.runAllTimers();
+    expect(turn.page()).toBe(1);
+
+    turn.page(5);
+    vi.runAllTimers();
+    expect(turn.page()).toBe(5);
+  });
+
+  it('should wait for a Promise returned by beforeTurn', async () => {
+    let allow: (allowed: boolean) => void = () => undefined;
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      beforeTurn: () =>
+        new Promise<boolean>(resolve => {
+          allow = resolve;
+        })
+    });
+
+    turn.page(4);
+    expect(turn.animating()).toBe(false);
+
+    allow(true);
+    await vi.runAllTimersAsync();
+    expect(turn.page()).toBe(4);
+
+    turn.page(6);
+    allow(false);
+    await vi.runAllTimersAsync();
+    expect(turn.page()).toBe(4);
+  });
+
+  it('should drop a pending guard answer once another turn or stop() takes over', async () => {
+    const answers: ((allowed: boolean) => void)[] = [];
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      beforeTurn: (_from, to) =>
+        to === 6
+          ? new Promise<boolean>(resolve => {
+              answers.push(resolve);
+            })
+          : true
+    });
+
+    turn.page(6);
+    turn.page(3);
+    answers[0](true);
+    await vi.runAllTimersAsync();
+    expect(turn.page()).toBe(3);
+
+    turn.page(6);
+    turn.stop();
+    answers[1](true);
+    await vi.runAllTimersAsync();
+    expect(turn.page()).toBe(3);
+  });
+
+  it('should let a dragged page fall back when the guard refuses', () => {
+    const turn = new Turn(book, { width: 800, height: 400, beforeTurn: () => false });
+    const flip = turn.state.pages.get(1)!;
+    const hideFoldedPage = vi.spyOn(flip, 'hideFoldedPage');
+
+    dragPageOver(book);
+    expect(hideFoldedPage).toHaveBeenCalledWith(true);
+
+    vi.runAllTimers();
+    expect(turn.page()).toBe(1);
+    expect(turn.animating()).toBe(false);
+  });
+
+  it('should hold a dragged page until an async guard answers', async () => {
+    let allow: (allowed: boolean) => void = () => undefined;
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      beforeTurn: () =>
+        new Promise<boolean>(resolve => {
+          allow = resolve;
+        })
+    });
+    const flip = turn.state.pages.get(1)!;
+    const hideFoldedPage = vi.spyOn(flip, 'hideFoldedPage');
+
+    dragPageOver(book);
+    expect(hideFoldedPage).not.toHaveBeenCalled();
+    expect(turn.animating()).toBe(true);
+
+    allow(false);
+    await vi.runAllTimersAsync();
+    expect(hideFoldedPage).toHaveBeenCalledWith(true);
+    expect(turn.page()).toBe(1);
+
+    dragPageOver(book);
+    allow(true);
+    await vi.runAllTimersAsync();
+    expect(turn.page()).toBe(2);
+  });
+
+  it('should reject awaited navigation that a guard refuses', async () => {
+    const instance = createTurn(book, { width: 800, height: 400, beforeTurn: () => false });
+    await expect(instance.next()).rejects.toBeInstanceOf(TurnCancelledError);
+  });
+
+  it('should let native listeners cancel turning with preventDefault', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    book.addEventListener('turning', event => event.preventDefault());
+
+    turn.page(3, { animate: false });
+    expect(turn.page()).toBe(1);
+  });
+});
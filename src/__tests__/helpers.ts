@@ -0,0 +1,27 @@
+/**
+ * Fixtures shared by the test files
+ */
+
+/** A book element of `pages` numbered pages, put into `parent` */
+export const createBook = (pages: number, parent: HTMLElement = document.body): HTMLElement => {
+  const book = document.createElement('div');
+  for (let i = 1; i <= pages; i++) {
+    const page = document.createElement('div');
+    page.textContent = `Page ${i}`;
+    book.appendChild(page);
+  }
+  parent.appendChild(book);
+  return book;
+};
+
+/** A mouse pointer event at `pageX`, `pageY`, which jsdom leaves at 0 otherwise */
+export const pointerEvent = (type: string, pageX: number, pageY: number): PointerEvent => {
+  const event = new PointerEvent(type, {
+    pointerId: 1,
+    pointerType: 'mouse',
+    bubbles: true,
+    cancelable: true
+  });
+  Object.defineProperties(event, { pageX: { value: pageX }, pageY: { value: pageY } });
+  return event;
+};
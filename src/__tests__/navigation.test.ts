@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTurn, TurnCancelledError } from '../index.js';
+import { Turn } from '../engine/turn.js';
+import { createBook } from './helpers.js';
+
+describe('Navigation', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(10);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  it('should resolve goTo once the page has turned', async () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    const turned = vi.fn();
+    book.addEventListener('turned', turned);
+
+    const done = vi.fn();
+    void turn.goTo(6).then(done);
+    await Promise.resolve();
+    expect(done).not.toHaveBeenCalled();
+    expect(turn.animating()).toBe(true);
+
+    await vi.runAllTimersAsync();
+    expect(done).toHaveBeenCalledTimes(1);
+    expect(turned).toHaveBeenCalled();
+    expect(turn.view()).toEqual([6, 7]);
+  });
+
+  it('should jump without animating when animate is false', async () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+
+    const going = turn.goTo(8, { animate: false });
+    expect(turn.animating()).toBe(false);
+    expect(turn.page()).toBe(8);
+    await expect(going).resolves.toBeUndefined();
+
+    turn.page(2, { animate: false });
+    expect(turn.page()).toBe(2);
+  });
+
+  it('should run queued calls in order', async () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    const pages: number[] = [];
+    book.addEventListener('turned', event => {
+      pages.push((event as CustomEvent<{ page: number }>).detail.page);
+    });
+
+    const all = Promise.all([turn.goNext(), turn.goNext(), turn.goTo(9), turn.goPrevious()]);
+    await vi.runAllTimersAsync();
+    await all;
+
+    expect(pages).toEqual([2, 4, 9, 7]);
+  });
+
+  it('should wait for a turn already under way', async () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    turn.next();
+
+    const going = turn.goNext();
+
+    await vi.runAllTimersAsync();
+    await going;
+    expect(turn.view()).toEqual([4, 5]);
+  });
+
+  it('should resolve at the ends of the book without turning', async () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    const turning = vi.fn();
+    book.addEventListener('turning', turning);
+
+    await turn.goPrevious();
+    expect(turning).not.toHaveBeenCalled();
+  });
+
+  it('should reject pages the book does not have', async () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    await expect(turn.goTo(11)).rejects.toBeInstanceOf(RangeError);
+  });
+
+  it('should reject the running and queued calls on stop', async () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    const first = turn.goTo(6);
+    const second = turn.goTo(9);
+
+    turn.stop();
+
+    await expect(first).rejects.toBeInstanceOf(TurnCancelledError);
+    await expect(second).rejects.toBeInstanceOf(TurnCancelledError);
+    expect(turn.page()).toBe(6);
+  });
+
+  it('should reject when another navigation takes over', async () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    const going = turn.goTo(6);
+
+    turn.page(3);
+
+    await expect(going).rejects.toThrow('The page turn was cancelled');
+    await vi.runAllTimersAsync();
+    expect(turn.view()).toEqual([2, 3]);
+  });
+
+  it('should reject pending calls on destroy', async () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    const going = turn.goTo(6);
+    turn.destroy();
+    await expect(going).rejects.toBeInstanceOf(TurnCancelledError);
+  });
+
+  it('should make next and previous awaitable on the instance', async () => {
+    const instance = createTurn(book, { width: 800, height: 400 });
+
+    const going = instance.next();
+    await vi.runAllTimersAsync();
+    await going;
+    expect(instance.page()).toBe(2);
+
+    await instance.previous({ animate: false });
+    expect(instance.page()).toBe(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createNavigator, createTurn } from '../index.js';
+import type { ThumbnailNavigator, TurnInstance } from '../types.js';
+import { createBook } from './helpers.js';
+
+const press = (target: HTMLElement, key: string): void => {
+  target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+};
+
+describe('Thumbnail navigator', () => {
+  let book: HTMLElement;
+  let container: HTMLElement;
+  let instance: TurnInstance;
+  let navigator: ThumbnailNavigator;
+
+  const spreads = (): HTMLButtonElement[] =>
+    Array.from(navigator.element.querySelectorAll<HTMLButtonElement>('button'));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(6);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    instance = createTurn(book, { width: 800, height: 400 });
+    navigator = createNavigator(instance, container, { height: 40 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    instance.destroy();
+    book.remove();
+    container.remove();
+  });
+
+  it('should group the pages into spreads of scaled copies', () => {
+    expect(container.firstElementChild).toBe(navigator.element);
+    expect(spreads().map(button => button.getAttribute('aria-label'))).toEqual([
+      'Page 1',
+      'Pages 2–3',
+      'Pages 4–5',
+      'Page 6'
+    ]);
+
+    const thumbnail = spreads()[1].querySelector<HTMLElement>('.turn-navigator-page')!;
+    expect(thumbnail.style.width).toBe('40px');
+    expect(thumbnail.textContent).toBe('Page 2');
+    expect((thumbnail.firstElementChild as HTMLElement).style.transform).toBe('scale(0.1)');
+  });
+
+  it('should use the images given for pages', () => {
+    navigator.destroy();
+    navigator = createNavigator(instance, container, {
+      image: page => (page === 2 ? `/thumbs/${page}.png` : undefined)
+    });
+
+    expect(spreads()[1].querySelector('img')?.getAttribute('src')).toBe('/thumbs/2.png');
+    expect(spreads()[0].querySelector('img')).toBeNull();
+  });
+
+  it('should highlight the view and turn to a spread on click', () => {
+    expect(spreads()[0].getAttribute('aria-current')).toBe('page');
+
+    spreads()[2].click();
+    vi.runAllTimers();
+    expect(instance.view()).toEqual([4, 5]);
+    expect(spreads()[2].getAttribute('aria-current')).toBe('page');
+    expect(spreads()[2].tabIndex).toBe(0);
+    expect(spreads()[0].hasAttribute('aria-current')).toBe(false);
+    expect(spreads()[0].tabIndex).toBe(-1);
+  });
+
+  it('should follow added and removed pages and display changes', () => {
+    instance.addPage(document.createElement('div'));
+    expect(spreads()).toHaveLength(4);
+    expect(spreads()[3].getAttribute('aria-label')).toBe('Pages 6–7');
+
+    instance.removePage(1);
+    instance.removePage(1);
+    expect(spreads()).toHaveLength(3);
+
+    instance.pages(3);
+    expect(spreads()).toHaveLength(2);
+
+    instance.display('single');
+    expect(spreads()).toHaveLength(3);
+  });
+
+  it('should follow the reading direction of the book', () => {
+    expect(navigator.element.dir).toBe('ltr');
+    const [, spread] = spreads();
+
+    instance.direction('rtl');
+    expect(navigator.element.dir).toBe('rtl');
+    expect(spreads()[1]).not.toBe(spread);
+    expect(spreads()[1].getAttribute('aria-label')).toBe('Pages 2–3');
+  });
+
+  it('should move the focus along the strip with the arrow keys', () => {
+    const [first, second, , last] = spreads();
+    first.focus();
+
+    press(first, 'ArrowRight');
+    expect(document.activeElement).toBe(second);
+    expect(second.tabIndex).toBe(0);
+
+    press(second, 'End');
+    expect(document.activeElement).toBe(last);
+
+    press(last, 'Home');
+    expect(document.activeElement).toBe(first);
+
+    press(first, 'ArrowLeft');
+    expect(document.activeElement).toBe(first);
+  });
+
+  it('should go away with the book', () => {
+    instance.destroy();
+    expect(navigator.element.isConnected).toBe(false);
+    instance = createTurn(book, { width: 800, height: 400 });
+    expect(() => createNavigator({} as TurnInstance, container)).toThrow('createNavigator');
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Turn } from '../engine/turn.js';
+
+const makePage = (page: number): HTMLElement => {
+  const element = document.createElement('article');
+  element.textContent = `Page ${page}`;
+  return element;
+};
+
+const loadedPages = (turn: Turn): number[] =>
+  Array.from(turn.state.pageObjs.keys())
+    .filter(page => page > 0)
+    .sort((a, b) => a - b);
+
+describe('PageLoader', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = document.createElement('div');
+    document.body.appendChild(book);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  it('should only ask for the pages inside the range', () => {
+    const provider = vi.fn(makePage);
+    const missing = vi.fn();
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      pages: 500,
+      pageProvider: provider,
+      when: { missing }
+    });
+
+    expect(provider.mock.calls.map(([page]) => page)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(missing).toHaveBeenCalledWith({ pages: [1, 2, 3, 4, 5, 6] });
+    expect(turn.state.pageObjs.get(1)?.textContent).toBe('Page 1');
+  });
+
+  it('should keep memory flat while reading through the book', () => {
+    const turn = new Turn(book, { width: 800, height: 400, pages: 500, pageProvider: makePage });
+
+    for (let page = 2; page <= 500; page += 2) {
+      turn.page(page);
+      vi.runAllTimers();
+    }
+
+    expect(turn.page()).toBe(500);
+    expect(loadedPages(turn)).toEqual([495, 496, 497, 498, 499, 500]);
+    expect(book.querySelectorAll('article')).toHaveLength(6);
+  });
+
+  it('should load the target range when jumping far ahead', () => {
+    const provider = vi.fn(makePage);
+    const turn = new Turn(book, { width: 800, height: 400, pages: 500, pageProvider: provider });
+    provider.mockClear();
+
+    turn.page(250);
+    vi.runAllTimers();
+
+    expect(turn.view()).toEqual([250, 251]);
+    expect(provider.mock.calls.map(([page]) => page)).toEqual([248, 249, 250, 251, 252, 253]);
+    expect(loadedPages(turn)).toEqual([248, 249, 250, 251, 252, 253]);
+  });
+
+  it('should hand unloaded pages back without engine classes', () => {
+    const pages = new Map<number, HTMLElement>();
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      pages: 100,
+      pageProvider: page => {
+        const element = makePage(page);
+        pages.set(page, element);
+        return element;
+      }
+    });
+
+    turn.page(50);
+    vi.runAllTimers();
+
+    expect(pages.get(1)!.isConnected).toBe(false);
+    expect(pages.get(1)!.hasAttribute('class')).toBe(false);
+    expect(pages.get(1)!.hasAttribute('style')).toBe(false);
+  });
+
+  it('should show a placeholder until the page resolves', async () => {
+    const resolvers = new Map<number, (element: HTMLElement) => void>();
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      pages: 20,
+      pageProvider: page =>
+        new Promise<HTMLElement>(resolve => {
+          resolvers.set(page, resolve);
+        })
+    });
+
+    const placeholder = turn.state.pageObjs.get(1)!;
+    expect(placeholder.classList.contains('turn-page-placeholder')).toBe(true);
+    expect(turn.state.pages.has(1)).toBe(true);
+
+    resolvers.get(1)!(makePage(1));
+    await vi.runAllTimersAsync();
+
+    expect(placeholder.isConnected).toBe(false);
+    expect(turn.state.pageObjs.get(1)?.textContent).toBe('Page 1');
+    expect(turn.state.pageWrap.get(1)?.contains(turn.state.pageObjs.get(1)!)).toBe(true);
+    expect(turn.state.pages.get(1)?.element).toBe(turn.state.pageObjs.get(1));
+  });
+
+  it('should wait for a running turn before swapping a placeholder in', async () => {
+    const resolvers = new Map<number, (element: HTMLElement) => void>();
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      pages: 20,
+      pageProvider: page =>
+        page <= 6
+          ? makePage(page)
+          : new Promise<HTMLElement>(resolve => {
+              resolvers.set(page, resolve);
+            })
+    });
+
+    turn.page(8);
+    expect(turn.animating()).toBe(true);
+
+    resolvers.get(8)!(makePage(8));
+    await Promise.resolve();
+    expect(turn.state.pageObjs.get(8)?.classList.contains('turn-page-placeholder')).toBe(true);
+
+    await vi.runAllTimersAsync();
+    expect(turn.animating()).toBe(false);
+    expect(turn.state.pageObjs.get(8)?.textContent).toBe('Page 8');
+  });
+
+  it('should drop pages that resolve after leaving the range', async () => {
+    let resolve50: ((element: HTMLElement) => void) | undefined;
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      pages: 100,
+      pageProvider: page =>
+        page === 50
+          ? new Promise<HTMLElement>(resolve => {
+              resolve50 = resolve;
+            })
+          : makePage(page)
+    });
+
+    turn.page(50);
+    vi.runAllTimers();
+    turn.page(1);
+    vi.runAllTimers();
+
+    resolve50!(makePage(50));
+    await vi.runAllTimersAsync();
+    expect(turn.hasPage(50)).toBe(false);
+  });
+
+  it('should mark placeholders whose page fails to load', async () => {
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      pages: 10,
+      pageProvider: page => (page === 2 ? Promise.reject(new Error('offline')) : makePage(page))
+    });
+
+    await vi.runAllTimersAsync();
+    expect(turn.state.pageObjs.get(2)?.classList.contains('turn-page-error')).toBe(true);
+  });
+
+  it('should take provided pages out on destroy', () => {
+    const child = document.createElement('section');
+    book.appendChild(child);
+    const turn = new Turn(book, { width: 800, height: 400, pages: 50, pageProvider: makePage });
+    turn.destroy();
+
+    expect(Array.from(book.children)).toEqual([child]);
+  });
+});
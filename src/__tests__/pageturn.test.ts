@@ -64,6 +64,8 @@ describe('PageTurn.js API', () => {
         addPage: () => ({} as TurnInstance),
         hasPage: () => false,
         display: mockDisplay,
+        direction: () => 'ltr',
+        transition: () => 'curl',
         animating: () => false,
         disable: () => ({} as TurnInstance),
         size: mockSize,
@@ -73,11 +75,22 @@ describe('PageTurn.js API', () => {
         range: () => [0, 0] as const,
         view: () => [] as const,
         page: mockPage,
-        next: () => ({} as TurnInstance),
-        previous: () => ({} as TurnInstance),
+        goTo: () => Promise.resolve(),
+        next: () => Promise.resolve(),
+        previous: () => Promise.resolve(),
         stop: () => ({} as TurnInstance),
+        peel: () => ({} as TurnInstance),
+        unpeel: () => ({} as TurnInstance),
+        autoplay: () => ({ playing: true, pause: () => {}, resume: () => {}, stop: () => {} }),
         on: () => ({} as TurnInstance),
-        off: () => ({} as TurnInstance)
+        off: () => ({} as TurnInstance),
+        zoom: () => 1,
+        toc: () => [],
+        bookmarks: () => [],
+        addBookmark: () => ({} as TurnInstance),
+        removeBookmark: () => ({} as TurnInstance),
+        clearProgress: () => ({} as TurnInstance),
+        destroy: () => {}
       };
 
       expect(mockInstance).toBeDefined();
@@ -127,9 +140,10 @@ describe('PageTurn.js API', () => {
       // This test verifies that the documented API methods exist
       // Actual functionality is tested in integration tests
       const methods = [
-        'addPage', 'hasPage', 'display', 'animating', 'disable',
+        'addPage', 'hasPage', 'display', 'direction', 'transition', 'animating', 'disable',
         'size', 'resize', 'removePage', 'pages', 'range', 'view',
-        'page', 'next', 'previous', 'stop', 'on', 'off'
+        'page', 'goTo', 'next', 'previous', 'stop', 'peel', 'unpeel', 'autoplay', 'on', 'off', 'zoom',
+        'toc', 'bookmarks', 'addBookmark', 'removeBookmark', 'clearProgress', 'destroy'
       ];
 
       methods.forEach(method => {
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMemoryStorage, createTurn } from '../index.js';
+import type { ProgressStorage, TurnInstance, TurnOptions } from '../types.js';
+import { createBook } from './helpers.js';
+
+describe('Reading-position persistence', () => {
+  let book: HTMLElement;
+  let storage: ProgressStorage;
+  let instance: TurnInstance;
+
+  const open = (pages = 10, options: Partial<TurnOptions> = {}): TurnInstance => {
+    book?.remove();
+    book = createBook(pages);
+    instance = createTurn(book, {
+      width: 800,
+      height: 400,
+      persistence: { id: 'atlas', storage },
+      ...options
+    });
+    return instance;
+  };
+
+  const saved = (): unknown => JSON.parse(storage.getItem('pageturn:atlas') ?? 'null');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = createMemoryStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    instance.destroy();
+    book.remove();
+  });
+
+  it('should save the page, zoom and bookmarks and restore them', () => {
+    open();
+    expect(saved()).toBeNull();
+
+    instance.page(6);
+    vi.runAllTimers();
+    instance.addBookmark(3, 'Maps');
+    instance.zoom(2);
+    expect(saved()).toEqual({
+      version: 1,
+      page: 6,
+      zoom: 2,
+      bookmarks: [{ page: 3, label: 'Maps' }]
+    });
+
+    instance.destroy();
+    open();
+    expect(instance.page()).toBe(6);
+    expect(instance.zoom()).toBe(2);
+    expect(instance.bookmarks()).toEqual([{ page: 3, label: 'Maps' }]);
+  });
+
+  it('should drop what no longer fits the book', () => {
+    storage.setItem(
+      'pageturn:atlas',
+      JSON.stringify({
+        version: 1,
+        page: 14,
+        zoom: 'large',
+        bookmarks: [{ page: 2 }, { page: 12, label: 'Index' }, null, { page: -1 }]
+      })
+    );
+
+    open(10, { page: 4 });
+    expect(instance.page()).toBe(4);
+    expect(instance.zoom()).toBe(1);
+    expect(instance.bookmarks()).toEqual([{ page: 2 }]);
+  });
+
+  it('should ignore data it cannot read', () => {
+    storage.setItem('pageturn:atlas', '{"version":1,');
+    open();
+    expect(instance.page()).toBe(1);
+
+    instance.destroy();
+    storage.setItem('pageturn:atlas', JSON.stringify({ version: 99, page: 5 }));
+    open();
+    expect(instance.page()).toBe(1);
+  });
+
+  it('should keep working when the storage fails', () => {
+    storage = {
+      getItem: () => {
+        throw new Error('SecurityError');
+      },
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+      removeItem: () => {}
+    };
+
+    open();
+    instance.page(4);
+    vi.runAllTimers();
+    expect(instance.page()).toBe(4);
+  });
+
+  it('should forget the progress on clearProgress', () => {
+    open();
+    instance.page(8);
+    vi.runAllTimers();
+    expect(instance.clearProgress()).toBe(instance);
+    expect(saved()).toBeNull();
+
+    instance.destroy();
+    open();
+    expect(instance.page()).toBe(1);
+  });
+
+  it('should let a page in the URL win over the saved one', () => {
+    storage.setItem('pageturn:atlas', JSON.stringify({ version: 1, page: 8, bookmarks: [] }));
+    history.replaceState(null, '', '#page/4');
+
+    open(10, { routing: true });
+    expect(instance.page()).toBe(4);
+    history.replaceState(null, '', location.pathname);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTurn, useTurn } from '../index.js';
+import type { TurnEventHandler, TurnPlugin } from '../types.js';
+import { createBook } from './helpers.js';
+
+declare module '../types.js' {
+  interface TurnInstance {
+    notes?(): readonly string[];
+    addNote?(text: string): TurnInstance;
+  }
+
+  interface TurnWhenHandlers {
+    readonly noteadd?: TurnEventHandler<{ page: number; text: string }>;
+  }
+}
+
+/** A plugin that logs every hook it runs */
+const recorder = (name: string, log: string[]): TurnPlugin => ({
+  name,
+  init: () => void log.push(`${name}:init`),
+  optionsChange: (_context, { option, value, previous }) =>
+    void log.push(`${name}:${option} ${JSON.stringify(previous)} > ${JSON.stringify(value)}`),
+  beforeTurn: (_context, from, to) => void log.push(`${name}:before ${from} > ${to}`),
+  afterTurn: (_context, page, view) => void log.push(`${name}:after ${page} [${view.join()}]`),
+  pageAdded: (_context, page) => void log.push(`${name}:added ${page}`),
+  pageRemoved: (_context, page) => void log.push(`${name}:removed ${page}`),
+  destroy: () => void log.push(`${name}:destroy`)
+});
+
+/** Keeps notes on the pages and adds `notes()` and `addNote()` to the instance */
+const notesPlugin = (): TurnPlugin => {
+  const notes: string[] = [];
+  return {
+    name: 'notes',
+    methods: context => ({
+      notes: () => notes,
+      addNote: (text: string) => {
+        notes.push(text);
+        context.emit('noteadd', { page: context.instance.page() as number, text });
+        return context.instance;
+      }
+    })
+  };
+};
+
+describe('Plugins', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(10);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  it('should run the hooks of each plugin in order through the life of the book', () => {
+    const log: string[] = [];
+    const instance = createTurn(book, {
+      width: 800,
+      height: 400,
+      plugins: [recorder('a', log), recorder('b', log)]
+    });
+    expect(log).toEqual(['a:init', 'b:init']);
+
+    log.length = 0;
+    instance.page(4);
+    vi.runAllTimers();
+    expect(log).toEqual(['a:before 1 > 4', 'b:before 1 > 4', 'a:after 4 [4,5]', 'b:after 4 [4,5]']);
+
+    log.length = 0;
+    instance.addPage(document.createElement('div'));
+    instance.removePage(11);
+    expect(log).toEqual(['a:added 11', 'b:added 11', 'a:removed 11', 'b:removed 11']);
+
+    log.length = 0;
+    instance.destroy();
+    expect(log).toEqual(['a:destroy', 'b:destroy']);
+  });
+
+  it('should report the options changed on the instance', () => {
+    const log: string[] = [];
+    const instance = createTurn(book, { width: 800, height: 400, plugins: [recorder('a', log)] });
+    log.length = 0;
+
+    instance.display('single');
+    instance.display('single');
+    instance.direction('rtl');
+    instance.transition('slide');
+    instance.size(600, 400);
+    instance.size(600, 400);
+    instance.disable(true).disable(true);
+
+    expect(log).toEqual([
+      'a:display "double" > "single"',
+      'a:direction "ltr" > "rtl"',
+      'a:transition "curl" > "slide"',
+      'a:size {"width":800,"height":400} > {"width":600,"height":400}',
+      'a:disabled false > true'
+    ]);
+    instance.destroy();
+  });
+
+  it('should veto a turn from beforeTurn, also once a Promise settles', async () => {
+    let allow: (allowed: boolean) => void = () => undefined;
+    const instance = createTurn(book, {
+      width: 800,
+      height: 400,
+      beforeTurn: () => true,
+      plugins: [
+        { name: 'limit', beforeTurn: (_context, _from, to) => to <= 6 },
+        {
+          name: 'ask',
+          beforeTurn: () =>
+            new Promise<boolean>(resolve => {
+              allow = resolve;
+            })
+        }
+      ]
+    });
+
+    instance.page(8);
+    vi.runAllTimers();
+    expect(instance.page()).toBe(1);
+
+    instance.page(4);
+    allow(true);
+    await vi.runAllTimersAsync();
+    expect(instance.page()).toBe(4);
+
+    instance.page(6);
+    allow(false);
+    await vi.runAllTimersAsync();
+    expect(instance.page()).toBe(4);
+    instance.destroy();
+  });
+
+  it('should add plugin methods and events to every instance of the book', () => {
+    const added = vi.fn();
+    const instance = createTurn(book, {
+      width: 800,
+      height: 400,
+      plugins: [notesPlugin()],
+      when: { noteadd: added }
+    });
+
+    expect(instance.addNote!('Margin')).toBe(instance);
+    expect(added).toHaveBeenCalledWith({ page: 1, text: 'Margin' });
+
+    const listener = vi.fn();
+    const again = useTurn(book);
+    again.on('noteadd', listener);
+    again.addNote!('Footnote');
+    expect(listener).toHaveBeenCalledWith({ page: 1, text: 'Footnote' });
+    expect(again.notes!()).toEqual(['Margin', 'Footnote']);
+
+    instance.destroy();
+    expect(() => instance.notes!()).toThrow();
+  });
+
+  it('should reject plugins that clash', () => {
+    expect(() =>
+      createTurn(book, { plugins: [{ name: 'a' }, { name: 'b' }, { name: 'a' }] })
+    ).toThrow('The plugin "a" is given more than once');
+
+    const greedy: TurnPlugin = {
+      name: 'greedy',
+      methods: () => ({ next: () => Promise.resolve() })
+    };
+    const other = createBook(4);
+    expect(() => createTurn(other, { plugins: [greedy] })).toThrow(
+      'The plugin "greedy" cannot replace the method "next"'
+    );
+    other.remove();
+  });
+});
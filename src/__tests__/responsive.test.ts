@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Turn } from '../engine/turn.js';
+import { createBook } from './helpers.js';
+
+class FakeResizeObserver {
+  static instances: FakeResizeObserver[] = [];
+
+  readonly observed: Element[] = [];
+  disconnected = false;
+
+  constructor(private readonly callback: ResizeObserverCallback) {
+    FakeResizeObserver.instances.push(this);
+  }
+
+  observe(target: Element): void {
+    this.observed.push(target);
+  }
+
+  disconnect(): void {
+    this.disconnected = true;
+  }
+
+  resize(width: number): void {
+    const entry = { contentRect: { width } } as ResizeObserverEntry;
+    this.callback([entry], this as unknown as ResizeObserver);
+  }
+}
+
+describe('Responsive', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('ResizeObserver', FakeResizeObserver);
+    FakeResizeObserver.instances = [];
+    book = createBook(10, document.body.appendChild(document.createElement('div')));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    book.parentElement!.remove();
+  });
+
+  const observer = (): FakeResizeObserver => FakeResizeObserver.instances[0];
+
+  it('should watch the parent by default', () => {
+    const turn = new Turn(book, { width: 800, height: 400, responsive: true });
+    expect(observer().observed).toEqual([book.parentElement]);
+    expect(turn.responsive!.aspectRatio).toBe(1);
+  });
+
+  it('should follow the container width and keep the page ratio', () => {
+    const turn = new Turn(book, { width: 800, height: 600, responsive: true });
+    observer().resize(1000);
+
+    expect(turn.size()).toEqual({ width: 1000, height: 750 });
+    expect(turn.state.pageWrap.get(1)!.style.width).toBe('500px');
+  });
+
+  it('should switch display at the breakpoints and keep the page', () => {
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      page: 5,
+      responsive: { breakpoints: { double: 600 } }
+    });
+    const displaychange = vi.fn();
+    book.addEventListener('displaychange', event => {
+      displaychange((event as CustomEvent<unknown>).detail);
+    });
+
+    observer().resize(500);
+    expect(turn.display()).toBe('single');
+    expect(turn.size()).toEqual({ width: 500, height: 500 });
+    expect(turn.page()).toBe(5);
+    expect(displaychange).toHaveBeenCalledWith({ display: 'single', previous: 'double' });
+
+    observer().resize(700);
+    expect(turn.display()).toBe('double');
+    expect(turn.view()).toEqual([4, 5]);
+    expect(displaychange).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use a configured container and aspect ratio', () => {
+    const container = document.createElement('section');
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      responsive: { container, aspectRatio: 0.5 }
+    });
+    observer().resize(800);
+
+    expect(observer().observed).toEqual([container]);
+    expect(turn.size()).toEqual({ width: 800, height: 800 });
+  });
+
+  it('should stack the page ratio in vertical double display', () => {
+    const turn = new Turn(book, {
+      width: 400,
+      height: 800,
+      orientation: 'vertical',
+      responsive: { breakpoints: { double: 500 } }
+    });
+    observer().resize(600);
+    expect(turn.size()).toEqual({ width: 600, height: 1200 });
+  });
+
+  it('should ignore collapsed containers', () => {
+    const turn = new Turn(book, { width: 800, height: 400, responsive: true });
+    observer().resize(0);
+    expect(turn.size()).toEqual({ width: 800, height: 400 });
+  });
+
+  it('should fire displaychange for manual switches too', () => {
+    const displaychange = vi.fn();
+    const turn = new Turn(book, { width: 800, height: 400, when: { displaychange } });
+
+    turn.display('double');
+    expect(displaychange).not.toHaveBeenCalled();
+    turn.display('single');
+    expect(displaychange).toHaveBeenCalledWith({ display: 'single', previous: 'double' });
+  });
+
+  it('should stop watching on destroy', () => {
+    const turn = new Turn(book, { width: 800, height: 400, responsive: true });
+    turn.destroy();
+    expect(observer().disconnected).toBe(true);
+  });
+});
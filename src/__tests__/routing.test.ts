@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Turn } from '../engine/turn.js';
+import { createBook } from './helpers.js';
+
+/** Moves to `url` the way the back and forward buttons do */
+const navigate = (url: string): void => {
+  history.replaceState(null, '', url);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+};
+
+describe('Routing', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    history.replaceState(null, '', '/book');
+    book = createBook(10);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  it('should open on the page in the hash', () => {
+    history.replaceState(null, '', '/book#page/7');
+    const turn = new Turn(book, { width: 800, height: 400, routing: true });
+    expect(turn.page()).toBe(7);
+  });
+
+  it('should fall back to the page option when the URL names no page', () => {
+    history.replaceState(null, '', '/book#intro');
+    const turn = new Turn(book, { width: 800, height: 400, page: 3, routing: true });
+    expect(turn.page()).toBe(3);
+    expect(location.hash).toBe('#intro');
+  });
+
+  it('should open on the page option when the page in the URL is out of range', () => {
+    history.replaceState(null, '', '/book#page/99');
+    const turn = new Turn(book, { width: 800, height: 400, page: 4, routing: true });
+    expect(turn.page()).toBe(4);
+    turn.destroy();
+
+    history.replaceState(null, '', '/book#page/0');
+    const again = new Turn(book, { width: 800, height: 400, routing: true });
+    expect(again.view()).toEqual([0, 1]);
+    expect(again.page()).toBe(1);
+  });
+
+  it('should push a history entry for every turn', () => {
+    const push = vi.spyOn(history, 'pushState');
+    const turn = new Turn(book, { width: 800, height: 400, routing: true });
+    expect(push).not.toHaveBeenCalled();
+
+    turn.page(4);
+    vi.runAllTimers();
+
+    expect(push).toHaveBeenCalledTimes(1);
+    expect(location.pathname + location.hash).toBe('/book#page/4');
+    push.mockRestore();
+  });
+
+  it('should rewrite the current entry when history is replace', () => {
+    const push = vi.spyOn(history, 'pushState');
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      routing: { history: 'replace' }
+    });
+
+    turn.page(4);
+    vi.runAllTimers();
+
+    expect(push).not.toHaveBeenCalled();
+    expect(location.hash).toBe('#page/4');
+    push.mockRestore();
+  });
+
+  it('should keep the page in a query parameter with a custom pattern', () => {
+    history.replaceState(null, '', '/book?lang=en&p=p5#top');
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      routing: { mode: 'query', param: 'p', pattern: 'p{page}' }
+    });
+    expect(turn.page()).toBe(5);
+
+    turn.page(8);
+    vi.runAllTimers();
+    expect(location.search).toBe('?lang=en&p=p8');
+    expect(location.hash).toBe('#top');
+  });
+
+  it('should turn to the page in the URL on popstate', () => {
+    const turn = new Turn(book, { width: 800, height: 400, routing: true });
+    const push = vi.spyOn(history, 'pushState');
+
+    navigate('/book#page/6');
+    vi.runAllTimers();
+    expect(turn.page()).toBe(6);
+
+    navigate('/book');
+    vi.runAllTimers();
+    expect(turn.page()).toBe(1);
+
+    expect(push).not.toHaveBeenCalled();
+    push.mockRestore();
+  });
+
+  it('should point the URL back at the page shown when a guard refuses the popstate', async () => {
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      routing: true,
+      beforeTurn: (_from, to) => to !== 8
+    });
+
+    navigate('/book#page/8');
+    await vi.runAllTimersAsync();
+    expect(turn.page()).toBe(1);
+    expect(location.hash).toBe('#page/1');
+
+    turn.page(6);
+    await vi.runAllTimersAsync();
+    expect(location.hash).toBe('#page/6');
+  });
+
+  it('should not add an entry when the URL page is already in view', () => {
+    history.replaceState(null, '', '/book#page/4');
+    const turn = new Turn(book, { width: 800, height: 400, routing: true });
+    const push = vi.spyOn(history, 'pushState');
+
+    turn.page(5);
+    vi.runAllTimers();
+
+    expect(push).not.toHaveBeenCalled();
+    push.mockRestore();
+  });
+
+  it('should stop following the URL on destroy', () => {
+    const turn = new Turn(book, { width: 800, height: 400, routing: true });
+    turn.destroy();
+
+    navigate('/book#page/6');
+    expect(turn.page()).toBe(1);
+  });
+});
@@ -0,0 +1,20 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+
+describe('Server rendering', () => {
+  it('should load without a DOM', async () => {
+    expect(typeof document).toBe('undefined');
+    const module = await import('../index.js');
+    expect(module.isTouchDevice).toBe(false);
+    expect(() => module.definePageTurn).not.toThrow();
+  });
+
+  it('should render the markup of a book', async () => {
+    const { renderStaticTurn } = await import('../index.js');
+    const html = renderStaticTurn(['<p>One</p>', '<p>Two</p>'], { width: 600, height: 300 });
+    expect(html).toContain('data-turn-static="1"');
+    expect(html).toContain(
+      '<div data-turn-page="1" style="position:absolute;top:0px;left:300px;width:300px;height:300px"><p>One</p></div>'
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createTurn, renderStaticTurn } from '../index.js';
+
+const pages = Array.from({ length: 6 }, (_, i) => `<p>Page ${i + 1}</p>`);
+
+const mount = (html: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  document.body.appendChild(container);
+  return container.firstElementChild as HTMLElement;
+};
+
+const pageStyles = (book: HTMLElement): string[] =>
+  Array.from(book.children).map(child => child.getAttribute('style') ?? '');
+
+describe('renderStaticTurn', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should show the spread of the page and hide the others', () => {
+    const book = mount(renderStaticTurn(pages, { width: 800, height: 400, page: 3 }));
+    const styles = pageStyles(book);
+
+    expect(book.getAttribute('data-turn-static')).toBe('3');
+    expect(book.getAttribute('style')).toBe('position:relative;width:800px;height:400px');
+    expect(book.children).toHaveLength(6);
+    expect(styles[1]).toContain('left:0px');
+    expect(styles[2]).toContain('left:400px');
+    expect(styles[1]).toContain('width:400px');
+    expect([styles[0], styles[3], styles[4], styles[5]]).toEqual(Array(4).fill('display:none'));
+  });
+
+  it('should lay out single, right-to-left and vertical books', () => {
+    const single = mount(
+      renderStaticTurn(pages, { width: 400, height: 400, display: 'single', page: 2 })
+    );
+    expect(pageStyles(single)[1]).toContain('width:400px');
+    expect(pageStyles(single)[2]).toBe('display:none');
+
+    const rtl = mount(
+      renderStaticTurn(pages, { width: 800, height: 400, direction: 'rtl', page: 2 })
+    );
+    expect(pageStyles(rtl)[1]).toContain('left:400px');
+    expect(pageStyles(rtl)[2]).toContain('left:0px');
+
+    const vertical = mount(
+      renderStaticTurn(pages, { width: 400, height: 800, orientation: 'vertical', page: 2 })
+    );
+    expect(pageStyles(vertical)[2]).toContain('top:400px');
+    expect(pageStyles(vertical)[2]).toContain('height:400px');
+  });
+
+  it('should escape the attributes of the book', () => {
+    const book = mount(
+      renderStaticTurn(pages, {
+        width: 800,
+        height: 400,
+        attributes: { id: 'book', title: 'A "quoted" <title>', style: 'margin:auto' }
+      })
+    );
+    expect(book.id).toBe('book');
+    expect(book.title).toBe('A "quoted" <title>');
+    expect(book.getAttribute('style')).toBe(
+      'margin:auto;position:relative;width:800px;height:400px'
+    );
+  });
+
+  it('should let createTurn take over the markup on its page', () => {
+    const book = mount(
+      renderStaticTurn(pages, {
+        width: 800,
+        height: 400,
+        page: 4,
+        attributes: { style: 'margin:auto' }
+      })
+    );
+    const first = book.children[0];
+
+    const instance = createTurn(book, { width: 800, height: 400 });
+    expect(instance.page()).toBe(4);
+    expect(instance.pages()).toBe(6);
+    expect(book.hasAttribute('data-turn-static')).toBe(false);
+    expect(first.hasAttribute('data-turn-page')).toBe(false);
+    expect(first.textContent).toBe('Page 1');
+
+    instance.destroy();
+    expect(book.getAttribute('style')).toBe('margin: auto;');
+    expect(first.hasAttribute('style')).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createSyncBus, createTurn, linkTurn, postMessageTransport } from '../index.js';
+import { getTurn } from '../engine/turn.js';
+import type { SyncBus, SyncMessage, SyncTransport, TurnInstance } from '../types.js';
+import { createBook, pointerEvent } from './helpers.js';
+
+/** A bus whose messages wait until `deliver()`, as they would on a real channel */
+const createDelayedBus = (): SyncBus & { deliver(): void } => {
+  const bus = createSyncBus();
+  const queue: (() => void)[] = [];
+  return {
+    connect() {
+      const transport = bus.connect();
+      return {
+        send: message => void queue.push(() => transport.send(message)),
+        listen: listener => transport.listen(listener)
+      };
+    },
+    deliver() {
+      while (queue.length) queue.shift()!();
+    }
+  };
+};
+
+describe('Linked books', () => {
+  let books: HTMLElement[];
+  let instances: TurnInstance[];
+  let bus: SyncBus;
+  let sent: SyncMessage[];
+
+  const open = (): TurnInstance => {
+    const book = createBook(10);
+    const instance = createTurn(book, { width: 800, height: 400, duration: 100 });
+    books.push(book);
+    instances.push(instance);
+    return instance;
+  };
+
+  /** A transport of `bus` that also keeps what it sends */
+  const connect = (): SyncTransport => {
+    const transport = bus.connect();
+    return {
+      send: message => {
+        sent.push(message);
+        transport.send(message);
+      },
+      listen: listener => transport.listen(listener)
+    };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    books = [];
+    instances = [];
+    sent = [];
+    bus = createSyncBus();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    instances.forEach(instance => instance.destroy());
+    books.forEach(book => book.remove());
+  });
+
+  it('should mirror the page and display between peers without echoing', () => {
+    const a = open();
+    const b = open();
+    linkTurn(a, { transport: connect(), id: 'a' });
+    linkTurn(b, { transport: connect(), id: 'b' });
+    sent = [];
+
+    a.page(6);
+    vi.runAllTimers();
+    expect(b.page()).toBe(6);
+    expect(sent.filter(({ type }) => type === 'state')).toHaveLength(1);
+
+    b.display('single');
+    vi.runAllTimers();
+    expect(a.display()).toBe('single');
+    expect(sent.filter(({ type }) => type === 'state')).toHaveLength(2);
+
+    void b.next();
+    vi.runAllTimers();
+    expect(a.page()).toBe(7);
+    expect(sent.filter(({ type }) => type === 'state')).toHaveLength(3);
+  });
+
+  it('should only follow the leader', () => {
+    const leader = open();
+    leader.page(4);
+    vi.runAllTimers();
+    linkTurn(leader, { transport: connect(), role: 'leader', id: 'a' });
+
+    const follower = open();
+    linkTurn(follower, { transport: connect(), role: 'follower', id: 'z' });
+    expect(follower.page()).toBe(4);
+    sent = [];
+
+    follower.page(8);
+    vi.runAllTimers();
+    expect(sent).toEqual([]);
+    expect(leader.page()).toBe(4);
+
+    leader.page(2);
+    vi.runAllTimers();
+    expect(follower.view()).toEqual([2, 3]);
+  });
+
+  it('should settle on the same page when two peers turn at once', () => {
+    const delayed = createDelayedBus();
+    const a = open();
+    const b = open();
+    linkTurn(a, { transport: delayed.connect(), id: 'a' });
+    linkTurn(b, { transport: delayed.connect(), id: 'b' });
+    delayed.deliver();
+
+    a.page(4);
+    b.page(8);
+    vi.runAllTimers();
+    delayed.deliver();
+    vi.runAllTimers();
+    delayed.deliver();
+
+    expect(a.page()).toBe(8);
+    expect(b.page()).toBe(8);
+  });
+
+  it('should mirror a corner while it is dragged and let it fall back', () => {
+    const a = open();
+    const b = open();
+    linkTurn(a, { transport: connect(), id: 'a' });
+    linkTurn(b, { transport: connect(), id: 'b' });
+    const mirrored = getTurn(books[1])!.state.pages.get(1)!;
+
+    books[0].dispatchEvent(pointerEvent('pointerdown', 395, 395));
+    document.dispatchEvent(pointerEvent('pointermove', 300, 300));
+    expect(mirrored.state.point).toMatchObject({ corner: 'br', x: 300, y: 300 });
+
+    vi.advanceTimersByTime(500);
+    document.dispatchEvent(pointerEvent('pointerup', 300, 300));
+    vi.runAllTimers();
+    expect(mirrored.state.point).toBeNull();
+    expect(b.page()).toBe(1);
+  });
+
+  it('should stop mirroring once unlinked', () => {
+    const a = open();
+    const b = open();
+    linkTurn(a, { transport: connect(), id: 'a' });
+    const link = linkTurn(b, { transport: connect(), id: 'b' });
+    expect(() => linkTurn(b, { transport: connect() })).toThrow('already linked');
+
+    link.unlink();
+    a.page(6);
+    vi.runAllTimers();
+    expect(b.page()).toBe(1);
+  });
+
+  it('should take only wrapped messages from the target window', () => {
+    const transport = postMessageTransport(window);
+    const listener = vi.fn();
+    const stop = transport.listen(listener);
+    const message: SyncMessage = { type: 'hello', sender: 'a' };
+
+    window.dispatchEvent(new MessageEvent('message', { data: message, source: window }));
+    window.dispatchEvent(new MessageEvent('message', { data: { pageturnSync: message } }));
+    window.dispatchEvent(
+      new MessageEvent('message', { data: { pageturnSync: message }, source: window })
+    );
+    stop();
+    window.dispatchEvent(
+      new MessageEvent('message', { data: { pageturnSync: message }, source: window })
+    );
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(message);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Turn } from '../engine/turn.js';
+import { createBook } from './helpers.js';
+
+describe('Theme', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(10);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    book.remove();
+  });
+
+  it('should shade folds with the theme colors behind custom properties', () => {
+    const turn = new Turn(book, {
+      width: 800,
+      height: 400,
+      theme: { shadowColor: '#2a1a0a', shadowIntensity: 0.5, foldHighlight: 0.1 }
+    });
+
+    turn.peel('br');
+    const { ashadow } = turn.state.pages.get(1)!.state;
+    const shading = ashadow!.style.backgroundImage;
+    expect(shading).toContain('var(--pageturn-shadow-color, #2a1a0a)');
+    expect(shading).toContain('var(--pageturn-shadow-intensity, 0.5)');
+    expect(shading).toContain('var(--pageturn-fold-shadow, 0.2)');
+    expect(shading).toContain('var(--pageturn-fold-highlight, 0.1)');
+    expect(shading).not.toContain('rgba');
+    turn.destroy();
+  });
+
+  it('should keep plain shading and add no layers to a book without a theme', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+
+    turn.peel('br');
+    const { ashadow } = turn.state.pages.get(1)!.state;
+    expect(ashadow!.style.backgroundImage).toContain('rgba(0, 0, 0, 0.');
+    expect(ashadow!.style.backgroundImage).not.toContain('color-mix');
+    expect(book.querySelector('.turn-spine, .turn-edge')).toBeNull();
+    turn.destroy();
+  });
+
+  it('should fall back to plain shading where color-mix is not supported', () => {
+    vi.stubGlobal('CSS', { supports: () => false });
+    const turn = new Turn(book, { width: 800, height: 400, theme: { shadowIntensity: 0.5 } });
+
+    turn.peel('br');
+    const { ashadow } = turn.state.pages.get(1)!.state;
+    expect(ashadow!.style.backgroundImage).not.toContain('color-mix');
+    expect(ashadow!.style.backgroundImage).toContain('rgba(255, 255, 255, 0.');
+    turn.destroy();
+  });
+
+  it('should draw the spine shadow in double display only', () => {
+    const turn = new Turn(book, { width: 800, height: 400, theme: { spineShadow: 0.3 } });
+    const spine = book.querySelector<HTMLElement>('.turn-spine')!;
+
+    expect(spine.style.display).toBe('');
+    expect(spine.style.left).toBe('47%');
+    expect(spine.style.backgroundImage).toContain('var(--pageturn-spine-shadow, 0.3)');
+
+    turn.display('single');
+    expect(spine.style.display).toBe('none');
+    turn.destroy();
+    expect(book.querySelector('.turn-spine')).toBeNull();
+  });
+
+  it('should share the page edges between the pages read and those to read', () => {
+    const turn = new Turn(book, { width: 800, height: 400, theme: { edgeThickness: 20 } });
+    const edges = (): string[] =>
+      Array.from(book.querySelectorAll<HTMLElement>('.turn-edge'), edge => edge.style.width);
+
+    expect(edges()).toEqual([
+      'calc(var(--pageturn-edge-thickness, 20px) * 0)',
+      'calc(var(--pageturn-edge-thickness, 20px) * 0.9)'
+    ]);
+
+    turn.page(6);
+    vi.runAllTimers();
+    expect(edges()).toEqual([
+      'calc(var(--pageturn-edge-thickness, 20px) * 0.5)',
+      'calc(var(--pageturn-edge-thickness, 20px) * 0.3)'
+    ]);
+
+    const [read, unread] = Array.from(book.querySelectorAll<HTMLElement>('.turn-edge'));
+    expect(read.style.right).toBe('100%');
+    expect(unread.style.left).toBe('100%');
+
+    turn.direction('rtl');
+    expect(read.style.left).toBe('100%');
+    expect(read.style.right).toBe('');
+    turn.destroy();
+  });
+
+  it('should reject settings that are not numbers of zero or more', () => {
+    expect(() => new Turn(book, { theme: { shadowIntensity: -1 } })).toThrow(
+      '"-1" is not a value for theme.shadowIntensity'
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTurn } from '../index.js';
+import { Turn } from '../engine/turn.js';
+import type { TransitionMode } from '../types.js';
+import { createBook } from './helpers.js';
+
+/** Records the engine events fired on `book`, in order */
+const recordEvents = (book: HTMLElement): string[] => {
+  const events: string[] = [];
+  ['start', 'turning', 'turn', 'turned'].forEach(name => {
+    book.addEventListener(name, () => events.push(name));
+  });
+  return events;
+};
+
+/** Stands in for `matchMedia`, answering `matches` for the reduced-motion query */
+const mockReducedMotion = (matches: boolean) => {
+  const query = {
+    matches,
+    listeners: [] as (() => void)[],
+    addEventListener: (_type: string, listener: () => void) => query.listeners.push(listener),
+    removeEventListener: vi.fn()
+  };
+  vi.stubGlobal('matchMedia', () => query);
+  return query;
+};
+
+describe('Transitions', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(10);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    book.remove();
+  });
+
+  it('should default to the curl', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    expect(turn.transition()).toBe('curl');
+  });
+
+  it('should follow prefers-reduced-motion unless a mode is given', () => {
+    const query = mockReducedMotion(true);
+    const turn = new Turn(book, { width: 800, height: 400 });
+    expect(turn.transition()).toBe('fade');
+
+    query.matches = false;
+    query.listeners.forEach(listener => listener());
+    expect(turn.transition()).toBe('curl');
+
+    turn.destroy();
+    expect(query.removeEventListener).toHaveBeenCalled();
+
+    query.matches = true;
+    expect(new Turn(book, { width: 800, height: 400, transition: 'slide' }).transition()).toBe(
+      'slide'
+    );
+  });
+
+  it.each<TransitionMode>(['curl', 'slide', 'fade', 'none'])(
+    'should fire the same events with %s',
+    mode => {
+      const turn = new Turn(book, { width: 800, height: 400, transition: mode });
+      const events = recordEvents(book);
+
+      turn.page(4);
+      vi.runAllTimers();
+
+      expect(turn.view()).toEqual([4, 5]);
+      expect(events).toEqual(['turning', 'turn', 'start', 'turned']);
+    }
+  );
+
+  it('should fade the new spread in over the duration', () => {
+    const turn = new Turn(book, { width: 800, height: 400, duration: 300, transition: 'fade' });
+
+    turn.page(4);
+    const incoming = turn.state.pageWrap.get(4)!;
+    expect(turn.animating()).toBe(true);
+    expect(Number(incoming.style.opacity)).toBeLessThan(1);
+
+    vi.advanceTimersByTime(150);
+    expect(turn.animating()).toBe(true);
+
+    vi.advanceTimersByTime(200);
+    expect(turn.animating()).toBe(false);
+    expect(turn.page()).toBe(4);
+    expect(incoming.style.opacity).toBe('');
+  });
+
+  it('should slide the spreads along the reading direction', () => {
+    const turn = new Turn(book, { width: 800, height: 400, transition: 'slide' });
+
+    turn.page(4);
+    vi.advanceTimersByTime(60);
+    const incoming = turn.state.pageWrap.get(4)!;
+    const outgoing = turn.state.pageWrap.get(1)!;
+    expect(incoming.style.transform).toMatch(/translate\(\d/);
+    expect(outgoing.style.transform).toMatch(/translate\(-\d/);
+    expect(book.style.overflow).toBe('hidden');
+
+    vi.runAllTimers();
+    expect(incoming.style.transform).toBe('');
+    expect(book.style.overflow).toBe('');
+  });
+
+  it('should show the page at once with none', () => {
+    const turn = new Turn(book, { width: 800, height: 400, transition: 'none' });
+    turn.page(6);
+    expect(turn.animating()).toBe(false);
+    expect(turn.page()).toBe(6);
+  });
+
+  it('should only let corners be grabbed with the curl', () => {
+    const turn = new Turn(book, { width: 800, height: 400, transition: 'fade' });
+    expect(turn.state.pages.get(1)!.state.disabled).toBe(true);
+
+    turn.transition('curl');
+    expect(turn.state.pages.get(1)!.state.disabled).toBe(false);
+  });
+
+  it('should keep the page when the mode changes, even mid-turn', () => {
+    const instance = createTurn(book, { width: 800, height: 400, transition: 'slide' });
+
+    instance.page(6);
+    vi.advanceTimersByTime(100);
+    instance.transition('fade');
+    expect(instance.animating()).toBe(false);
+    expect(instance.page()).toBe(6);
+
+    instance.transition('none');
+    expect(instance.page()).toBe(6);
+    expect(instance.transition()).toBe('none');
+    expect(() => instance.transition('spin' as TransitionMode)).toThrow();
+  });
+});
@@ -0,0 +1,619 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTurn, useTurn } from '../index.js';
+import { Turn, getTurn } from '../engine/turn.js';
+import { createBook } from './helpers.js';
+
+const pointerEvent = (
+  type: string,
+  pointerId: number,
+  pageX: number,
+  pageY: number,
+  pointerType = 'touch'
+): PointerEvent => {
+  const event = new PointerEvent(type, { pointerId, pointerType, bubbles: true, cancelable: true });
+  Object.defineProperties(event, { pageX: { value: pageX }, pageY: { value: pageY } });
+  return event;
+};
+
+/** A quick drag from `from` to `to`, in page coordinates */
+const swipe = (target: HTMLElement, from: [number, number], to: [number, number]): void => {
+  target.dispatchEvent(pointerEvent('pointerdown', 1, ...from));
+  vi.advanceTimersByTime(100);
+  document.dispatchEvent(pointerEvent('pointermove', 1, ...to));
+  document.dispatchEvent(pointerEvent('pointerup', 1, ...to));
+};
+
+describe('Turn engine', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(10);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  describe('construction', () => {
+    it('should register every child as a page', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      expect(turn.pages()).toBe(10);
+      expect(turn.state.pageObjs.get(3)?.classList.contains('p3')).toBe(true);
+      expect(turn.page()).toBe(1);
+      expect(turn.state.done).toBe(true);
+    });
+
+    it('should only keep pages inside the range in the DOM', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      expect(turn.range()).toEqual([1, 6]);
+      expect(Array.from(turn.state.pageWrap.keys()).sort((a, b) => a - b)).toEqual([
+        1, 2, 3, 4, 5, 6
+      ]);
+      expect(turn.state.pageObjs.get(9)?.isConnected).toBe(false);
+    });
+
+    it('should only make flips for the visible pages', () => {
+      const turn = new Turn(book, { width: 800, height: 400, page: 4 });
+      expect(turn.view()).toEqual([4, 5]);
+      expect(Array.from(turn.state.pages.keys()).sort((a, b) => a - b)).toEqual([4, 5]);
+    });
+
+    it('should size pages to half the book in double display', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      const wrap = turn.state.pageWrap.get(1)!;
+      expect(wrap.style.width).toBe('400px');
+      expect(wrap.style.right).toBe('0px');
+      expect(turn.state.pageWrap.get(2)!.style.left).toBe('0px');
+    });
+
+    it('should be reachable from the element', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      expect(getTurn(book)).toBe(turn);
+    });
+  });
+
+  describe('view and range', () => {
+    it('should pair pages in double display', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      expect(turn.view(1)).toEqual([0, 1]);
+      expect(turn.view(4)).toEqual([4, 5]);
+      expect(turn.view(10)).toEqual([10, 0]);
+    });
+
+    it('should show one page in single display', () => {
+      const turn = new Turn(book, { width: 800, height: 400, display: 'single' });
+      expect(turn.view(4)).toEqual([4]);
+      expect(turn.state.pageObjs.get(0)?.classList.contains('p-temporal')).toBe(true);
+    });
+
+    it('should reject pages outside the book', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      expect(() => turn.range(11)).toThrow('"11" is not a page for range');
+    });
+  });
+
+  describe('navigation', () => {
+    it('should jump without animating to a page in the current view', () => {
+      const turn = new Turn(book, { width: 800, height: 400, page: 2 });
+      const turned = vi.fn();
+      book.addEventListener('turned', event => {
+        turned((event as CustomEvent<unknown>).detail);
+      });
+
+      turn.page(3);
+      expect(turn.animating()).toBe(false);
+      expect(turned).toHaveBeenCalledWith({ page: 3, view: [2, 3] });
+    });
+
+    it('should fold the nearest page when turning', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      turn.page(4);
+
+      expect(turn.animating()).toBe(true);
+      expect(turn.state.pageMv).toEqual([1]);
+      expect(turn.state.tpage).toBe(4);
+      expect(turn.state.pages.get(1)?.state.opts.next).toBe(4);
+    });
+
+    it('should finish the turn and fire turned', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      const turned = vi.fn();
+      book.addEventListener('turned', event => {
+        turned((event as CustomEvent<unknown>).detail);
+      });
+
+      turn.next();
+      vi.runAllTimers();
+
+      expect(turn.animating()).toBe(false);
+      expect(turn.page()).toBe(2);
+      expect(turn.state.tpage).toBeUndefined();
+      expect(turned).toHaveBeenCalledWith({ page: 2, view: [2, 3] });
+    });
+
+    it('should let turned, first and last bubble but keep turning on the book', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      const heard: string[] = [];
+      const listener = (event: Event): void => void heard.push(event.type);
+      const types = ['turning', 'turned', 'first', 'last'];
+      types.forEach(type => document.body.addEventListener(type, listener));
+
+      turn.page(10);
+      vi.runAllTimers();
+      types.forEach(type => document.body.removeEventListener(type, listener));
+
+      expect(heard).toEqual(['last', 'turned']);
+    });
+
+    it('should complete the turn immediately on stop', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      turn.page(6);
+      turn.stop();
+
+      expect(turn.animating()).toBe(false);
+      expect(turn.page()).toBe(6);
+      expect(turn.state.pages.get(1)?.state.opts.next).toBe(2);
+    });
+
+    it('should stack folding pages above the rest', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      turn.page(2);
+
+      const z = turn.calculateZ(turn.state.pageMv);
+      expect(z.pageV).toEqual({ 1: true, 2: true, 3: true });
+      expect(z.pageZ[1]).toBe(9);
+      expect(z.partZ[1]).toBe(21);
+    });
+  });
+
+  describe('pages', () => {
+    it('should shift later pages when inserting', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      const inserted = document.createElement('div');
+      turn.addPage(inserted, 2);
+
+      expect(turn.pages()).toBe(11);
+      expect(turn.state.pageObjs.get(2)).toBe(inserted);
+      expect(turn.state.pageObjs.get(3)?.textContent).toBe('Page 2');
+      expect(turn.state.pageObjs.get(3)?.classList.contains('p2')).toBe(false);
+    });
+
+    it('should reject pages past the end', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      expect(() => turn.addPage(document.createElement('div'), 13)).toThrow(
+        'It is impossible to add the page "13", the maximum value is: "11"'
+      );
+    });
+
+    it('should shift later pages back when removing', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      turn.removePage(2);
+
+      expect(turn.pages()).toBe(9);
+      expect(turn.hasPage(10)).toBe(false);
+      expect(turn.state.pageObjs.get(2)?.textContent).toBe('Page 3');
+    });
+
+    it('should drop trailing pages when shrinking the book', () => {
+      const turn = new Turn(book, { width: 800, height: 400, page: 9 });
+      turn.pages(6);
+
+      expect(turn.pages()).toBe(6);
+      expect(turn.page()).toBe(6);
+      expect(turn.hasPage(7)).toBe(false);
+    });
+  });
+
+  describe('display', () => {
+    it('should re-lay pages out when switching display', () => {
+      const turn = new Turn(book, { width: 800, height: 400, page: 3 });
+      turn.display('single');
+
+      expect(turn.display()).toBe('single');
+      expect(turn.view()).toEqual([3]);
+      expect(turn.state.pageWrap.get(3)!.style.width).toBe('800px');
+      expect(turn.state.pages.get(3)?.state.opts.corners).toBe('all');
+    });
+
+    it('should reject unknown display modes', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      expect(() => turn.display('triple' as 'single')).toThrow(
+        '"triple" is not a value for display'
+      );
+    });
+  });
+
+  describe('direction', () => {
+    it('should put odd pages on the left in rtl books', () => {
+      const turn = new Turn(book, { width: 800, height: 400, page: 2, direction: 'rtl' });
+      expect(turn.state.pageWrap.get(3)!.style.left).toBe('0px');
+      expect(turn.state.pageWrap.get(2)!.style.right).toBe('0px');
+      expect(turn.state.pageWrap.get(1)!.style.left).toBe('0px');
+    });
+
+    it('should mirror the corner groups', () => {
+      const turn = new Turn(book, { width: 800, height: 400, page: 2, direction: 'rtl' });
+      expect(turn.state.pages.get(3)?.allowedCorners()).toEqual(['bl', 'tl']);
+      expect(turn.state.pages.get(2)?.allowedCorners()).toEqual(['br', 'tr']);
+    });
+
+    it('should turn toward the right on next', () => {
+      const turn = new Turn(book, { width: 800, height: 400, direction: 'rtl' });
+      turn.next();
+      expect(turn.state.pages.get(1)?.state.point?.corner).toBe('bl');
+
+      vi.runAllTimers();
+      expect(turn.view()).toEqual([2, 3]);
+    });
+
+    it('should turn single pages from the left corner on next', () => {
+      const turn = new Turn(book, {
+        width: 400,
+        height: 400,
+        display: 'single',
+        direction: 'rtl'
+      });
+      turn.next();
+      expect(turn.state.pages.get(1)?.state.point?.corner).toBe('bl');
+
+      vi.runAllTimers();
+      expect(turn.page()).toBe(2);
+    });
+
+    it('should switch direction on a live book and keep the page', () => {
+      const turn = new Turn(book, { width: 800, height: 400, page: 4 });
+      turn.direction('rtl');
+
+      expect(turn.direction()).toBe('rtl');
+      expect(turn.page()).toBe(4);
+      expect(turn.state.pageWrap.get(4)!.style.right).toBe('0px');
+      expect(turn.state.pageWrap.get(5)!.style.left).toBe('0px');
+      expect(turn.state.pages.get(5)?.allowedCorners()).toEqual(['bl', 'tl']);
+
+      turn.direction('ltr');
+      expect(turn.state.pageWrap.get(4)!.style.left).toBe('0px');
+      expect(turn.state.pages.get(5)?.allowedCorners()).toEqual(['br', 'tr']);
+    });
+
+    it('should reject unknown directions', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      expect(() => turn.direction('ttb' as 'ltr')).toThrow('"ttb" is not a value for direction');
+    });
+  });
+
+  describe('orientation', () => {
+    it('should stack pages top and bottom in vertical double display', () => {
+      const turn = new Turn(book, { width: 400, height: 800, orientation: 'vertical' });
+      turn.page(2);
+      vi.runAllTimers();
+
+      expect(turn.pageSize()).toEqual({ width: 400, height: 400 });
+      expect(turn.state.pageWrap.get(2)!.style.top).toBe('0px');
+      expect(turn.state.pageWrap.get(3)!.style.bottom).toBe('0px');
+      expect(turn.state.pageWrap.get(3)!.style.height).toBe('400px');
+    });
+
+    it('should fold along swapped axes', () => {
+      const turn = new Turn(book, { width: 400, height: 600, orientation: 'vertical' });
+      const flip = turn.state.pages.get(1)!;
+      expect(flip.size()).toEqual({ width: 300, height: 400 });
+
+      flip.showFoldedPage({ corner: 'br', x: 200, y: 350 });
+      expect(flip.state.wrapper.style.transform).toMatch(
+        /^matrix\(0, 1, 1, 0, 0, 0\) .* matrix\(0, 1, 1, 0, 0, 0\)$/
+      );
+      expect(flip.element.style.left).toBe('auto');
+      expect(flip.element.style.right).toBe('0px');
+    });
+
+    it('should report grabbed corners as they appear on screen', () => {
+      const start = vi.fn();
+      const turn = new Turn(book, {
+        width: 400,
+        height: 800,
+        orientation: 'vertical',
+        when: { start }
+      });
+
+      turn.state.pages.get(1)!.showFoldedPage({ corner: 'tr', x: 350, y: 50 });
+      expect(start).toHaveBeenCalledWith(expect.objectContaining({ page: 1, corner: 'bl' }));
+    });
+
+    it('should turn pages upward', () => {
+      const turn = new Turn(book, { width: 400, height: 800, orientation: 'vertical' });
+      turn.next();
+      vi.runAllTimers();
+
+      expect(turn.view()).toEqual([2, 3]);
+      expect(turn.range()).toEqual([1, 6]);
+    });
+  });
+
+  describe('hard pages', () => {
+    it('should take hardness from addPage, then data-hard, then hardCovers', () => {
+      book.children[2].setAttribute('data-hard', '');
+      book.children[3].setAttribute('data-hard', 'false');
+      const turn = new Turn(book, { width: 800, height: 400, hardCovers: true });
+      turn.addPage(document.createElement('div'), 6, { hard: true });
+      turn.addPage(document.createElement('div'), 12, { hard: false });
+
+      expect([1, 2, 3, 4, 5, 6, 7, 10, 11, 12].map(page => turn.isHard(page))).toEqual([
+        true,
+        true,
+        true,
+        false,
+        false,
+        true,
+        false,
+        false,
+        true,
+        false
+      ]);
+    });
+
+    it('should pass hardness to the flips', () => {
+      const turn = new Turn(book, { width: 800, height: 400, page: 2, hardCovers: true });
+      expect(turn.state.pages.get(2)?.state.opts.hard).toBe(true);
+      expect(turn.state.pages.get(3)?.state.opts.hard).toBe(false);
+
+      turn.addPage(document.createElement('div'), 2);
+      expect(turn.state.pages.get(3)?.state.opts.hard).toBe(false);
+    });
+
+    it('should swing a hard page on the spine instead of folding it', () => {
+      const turn = new Turn(book, { width: 800, height: 400, hardCovers: true });
+      const flip = turn.state.pages.get(1)!;
+      const back = turn.state.pageObjs.get(2)!;
+
+      flip.showFoldedPage({ corner: 'br', x: 200, y: 400 });
+      expect(flip.state.wrapper.style.transform).toBe('perspective(1200px) rotateY(-60deg)');
+      expect(flip.element.style.visibility).toBe('');
+      expect(flip.state.fwrapper.style.visibility).toBe('hidden');
+      expect(flip.state.hshadow?.style.backgroundImage).toContain('to right');
+
+      flip.showFoldedPage({ corner: 'br', x: -200, y: 400 });
+      expect(flip.element.style.visibility).toBe('hidden');
+      expect(flip.state.fwrapper.style.visibility).toBe('');
+      expect(flip.state.fpage.style.transform).toBe('perspective(1200px) rotateY(60deg)');
+      expect(flip.state.fpage.style.left).toBe('-400px');
+      expect(back.parentElement).toBe(flip.state.fpage);
+
+      flip.hideFoldedPage();
+      expect(flip.state.wrapper.style.transform).toBe('');
+      expect(flip.element.style.visibility).toBe('');
+    });
+
+    it('should swing left pages the other way', () => {
+      const turn = new Turn(book, { width: 800, height: 400, page: 10, hardCovers: true });
+      const flip = turn.state.pages.get(10)!;
+
+      flip.showFoldedPage({ corner: 'bl', x: 600, y: 400 });
+      expect(flip.state.fpage.style.transform).toBe('perspective(1200px) rotateY(-60deg)');
+      expect(flip.state.fpage.style.left).toBe('400px');
+    });
+
+    it('should finish a hard turn', () => {
+      const turn = new Turn(book, { width: 800, height: 400, hardCovers: true });
+      turn.next();
+      vi.runAllTimers();
+
+      expect(turn.view()).toEqual([2, 3]);
+      expect(turn.state.pageObjs.get(2)!.style.transform).toBe('');
+    });
+
+    it('should stack a hard back above the pages while a soft page lies beneath', () => {
+      book.children[2].setAttribute('data-hard', '');
+      book.children[3].setAttribute('data-hard', '');
+      const turn = new Turn(book, { width: 800, height: 400, page: 2 });
+      turn.next();
+
+      const flip = turn.state.pages.get(3)!;
+      const z = turn.calculateZ(turn.state.pageMv);
+      expect(flip.state.opts.hard).toBe(true);
+      expect(z.pageV).toEqual({ 2: true, 3: true, 4: true, 5: true });
+      expect(z.pageZ[3]).toBeGreaterThan(z.pageZ[5] ?? 0);
+      expect(Number(flip.state.fwrapper.style.zIndex)).toBeGreaterThan(
+        Math.max(...Array.from(turn.state.pageWrap.values(), wrap => Number(wrap.style.zIndex)))
+      );
+    });
+  });
+
+  describe('pointer input', () => {
+    it('should turn to the next page on a swipe against the reading direction', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      swipe(book, [600, 200], [500, 210]);
+      vi.runAllTimers();
+      expect(turn.page()).toBe(2);
+
+      swipe(book, [300, 200], [400, 200]);
+      vi.runAllTimers();
+      expect(turn.page()).toBe(1);
+    });
+
+    it('should mirror swipes for right-to-left books', () => {
+      const turn = new Turn(book, { width: 800, height: 400, direction: 'rtl' });
+      swipe(book, [200, 200], [300, 200]);
+      vi.runAllTimers();
+      expect(turn.page()).toBe(2);
+    });
+
+    it('should swipe along the vertical axis for vertical books', () => {
+      const turn = new Turn(book, { width: 400, height: 800, orientation: 'vertical' });
+      swipe(book, [200, 600], [200, 500]);
+      vi.runAllTimers();
+      expect(turn.page()).toBe(2);
+
+      swipe(book, [200, 200], [200, 300]);
+      vi.runAllTimers();
+      expect(turn.page()).toBe(1);
+    });
+
+    it('should ignore short, slow or sideways swipes', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      swipe(book, [600, 200], [580, 200]);
+      swipe(book, [600, 200], [500, 350]);
+
+      book.dispatchEvent(pointerEvent('pointerdown', 1, 600, 200));
+      vi.advanceTimersByTime(1000);
+      document.dispatchEvent(pointerEvent('pointerup', 1, 500, 200));
+
+      vi.runAllTimers();
+      expect(turn.page()).toBe(1);
+    });
+
+    it('should not swipe when swipes are off', () => {
+      const turn = new Turn(book, { width: 800, height: 400, swipe: false });
+      swipe(book, [600, 200], [500, 200]);
+      vi.runAllTimers();
+      expect(turn.page()).toBe(1);
+    });
+
+    it('should take the swipe thresholds from the options', () => {
+      const turn = new Turn(book, { width: 800, height: 400, swipe: { distance: 150 } });
+      swipe(book, [600, 200], [500, 200]);
+      vi.runAllTimers();
+      expect(turn.page()).toBe(1);
+    });
+
+    it('should turn the page when a corner is dragged over and released', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      book.dispatchEvent(pointerEvent('pointerdown', 1, 395, 395, 'mouse'));
+      document.dispatchEvent(pointerEvent('pointermove', 1, -300, 300, 'mouse'));
+      document.dispatchEvent(pointerEvent('pointerup', 1, -300, 300, 'mouse'));
+      vi.runAllTimers();
+      expect(turn.page()).toBe(2);
+    });
+
+    it('should let the page fall back when the pointer is cancelled', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      book.dispatchEvent(pointerEvent('pointerdown', 1, 395, 395));
+      document.dispatchEvent(pointerEvent('pointermove', 1, 100, 300));
+      document.dispatchEvent(pointerEvent('pointercancel', 1, 100, 300));
+      vi.runAllTimers();
+      expect(turn.page()).toBe(1);
+    });
+
+    it('should ignore other pointers while one holds a corner', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      book.dispatchEvent(pointerEvent('pointerdown', 1, 395, 395));
+      document.dispatchEvent(pointerEvent('pointermove', 1, 300, 380));
+      book.dispatchEvent(pointerEvent('pointerdown', 2, 600, 200));
+      document.dispatchEvent(pointerEvent('pointermove', 2, 100, 300));
+      document.dispatchEvent(pointerEvent('pointerup', 2, 100, 300));
+      vi.runAllTimers();
+
+      expect(turn.page()).toBe(1);
+      expect(turn.state.pages.get(1)?.state.corner).not.toBeNull();
+    });
+
+    it('should only fold a page under the mouse, not under a hovering finger', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      const flip = turn.state.pages.get(1)!;
+      const eventMove = vi.spyOn(flip, 'eventMove');
+
+      document.dispatchEvent(pointerEvent('pointermove', 1, 395, 395));
+      expect(eventMove).not.toHaveBeenCalled();
+
+      document.dispatchEvent(pointerEvent('pointermove', 1, 395, 395, 'mouse'));
+      expect(eventMove).toHaveBeenCalled();
+    });
+  });
+
+  describe('TurnInstance wrapper', () => {
+    it('should deliver typed payloads to handlers', () => {
+      const turning = vi.fn();
+      const instance = createTurn(book, { width: 800, height: 400, when: { turning } });
+      const turned = vi.fn();
+      instance.on('turned', turned);
+
+      instance.page(3);
+      vi.runAllTimers();
+
+      expect(turning).toHaveBeenLastCalledWith(expect.objectContaining({ page: 3, view: [2, 3] }));
+      expect(turned).toHaveBeenLastCalledWith({ page: 3, view: [2, 3] });
+    });
+
+    it('should stop delivering after off', () => {
+      const instance = createTurn(book, { width: 800, height: 400 });
+      const turned = vi.fn();
+      instance.on('turned', turned).off('turned', turned);
+
+      instance.page(3);
+      vi.runAllTimers();
+      expect(turned).not.toHaveBeenCalled();
+    });
+
+    it('should wrap an existing engine with useTurn', () => {
+      createTurn(book, { width: 800, height: 400 });
+      expect(useTurn(book).pages()).toBe(10);
+    });
+
+    it('should refuse to wrap an element without an engine', () => {
+      expect(() => useTurn(document.createElement('div'))).toThrow();
+    });
+  });
+
+  describe('destroy', () => {
+    it('should put the pages back in order and remove the engine layers', () => {
+      book.setAttribute('style', 'color: red;');
+      const pages = Array.from(book.children);
+      const turn = new Turn(book, { width: 800, height: 400, page: 5 });
+      turn.addPage(turn.state.pageObjs.get(10)!.cloneNode(true) as HTMLElement);
+      turn.removePage(11);
+      turn.destroy();
+
+      expect(Array.from(book.children)).toEqual(pages);
+      expect(pages.every(page => !page.hasAttribute('class') && !page.hasAttribute('style'))).toBe(
+        true
+      );
+      expect(book.getAttribute('style')).toBe('color: red;');
+      expect(getTurn(book)).toBeUndefined();
+    });
+
+    it('should remove the document listeners', () => {
+      const add = vi.spyOn(document, 'addEventListener');
+      const remove = vi.spyOn(document, 'removeEventListener');
+      const turn = new Turn(book, { width: 800, height: 400 });
+      turn.destroy();
+
+      expect(add).toHaveBeenCalledTimes(3);
+      expect(remove.mock.calls).toEqual(add.mock.calls);
+      add.mockRestore();
+      remove.mockRestore();
+    });
+
+    it('should fire destroyed and then drop every handler', () => {
+      const destroyed = vi.fn();
+      const turned = vi.fn();
+      const instance = createTurn(book, { width: 800, height: 400, when: { turned } });
+      instance.on('destroyed', destroyed).on('turned', turned);
+      turned.mockClear();
+
+      instance.destroy();
+      book.dispatchEvent(new CustomEvent('turned', { detail: { page: 1, view: [0, 1] } }));
+
+      expect(destroyed).toHaveBeenCalledTimes(1);
+      expect(turned).not.toHaveBeenCalled();
+    });
+
+    it('should throw on any later call', () => {
+      const instance = createTurn(book, { width: 800, height: 400 });
+      instance.destroy();
+
+      expect(() => instance.page(2)).toThrow('This PageTurn.js instance has been destroyed');
+      expect(() => instance.destroy()).toThrow('This PageTurn.js instance has been destroyed');
+    });
+
+    it('should clean up while a page is turning', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      turn.page(6);
+      turn.destroy();
+      vi.runAllTimers();
+
+      expect(book.children).toHaveLength(10);
+      expect(book.querySelector('.turn-page-wrapper')).toBeNull();
+    });
+  });
+});
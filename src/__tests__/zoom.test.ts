@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Turn } from '../engine/turn.js';
+import { createBook } from './helpers.js';
+
+const pointerEvent = (
+  type: string,
+  pointerId: number,
+  clientX: number,
+  clientY: number,
+  pointerType = 'touch'
+): PointerEvent =>
+  new PointerEvent(type, {
+    pointerId,
+    pointerType,
+    clientX,
+    clientY,
+    bubbles: true,
+    cancelable: true
+  });
+
+describe('Zoom', () => {
+  let book: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    book = createBook(10);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    book.remove();
+  });
+
+  it('should scale the book around its center', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    turn.zoom(2);
+
+    expect(turn.zoom()).toBe(2);
+    expect(book.style.transform).toBe('translate(-400px, -200px) scale(2)');
+    expect(book.style.clipPath).toBe('inset(100px 200px 100px 200px)');
+  });
+
+  it('should keep the level inside its bounds', () => {
+    const turn = new Turn(book, { width: 800, height: 400, zoom: { max: 4 } });
+    turn.zoom(10);
+    expect(turn.zoom()).toBe(4);
+    turn.zoom(0.5);
+    expect(turn.zoom()).toBe(1);
+    expect(book.style.clipPath).toBe('');
+  });
+
+  it('should fire zoomin and zoomout when entering and leaving zoom', () => {
+    const zoomin = vi.fn();
+    const zoomout = vi.fn();
+    const turn = new Turn(book, { width: 800, height: 400, when: { zoomin, zoomout } });
+
+    turn.zoom(2).zoom(3);
+    expect(zoomin).toHaveBeenCalledTimes(1);
+    expect(zoomin).toHaveBeenCalledWith({ level: 2 });
+
+    turn.zoom(1);
+    expect(zoomout).toHaveBeenCalledWith({ level: 1 });
+  });
+
+  it('should turn corner dragging off while zoomed', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    turn.zoom(2);
+    expect(turn.state.pages.get(1)?.state.disabled).toBe(true);
+
+    turn.zoom(1);
+    expect(turn.state.pages.get(1)?.state.disabled).toBe(false);
+  });
+
+  it('should keep a disabled book disabled after zooming out', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    turn.disable(true).zoom(2).zoom(1);
+    expect(turn.state.pages.get(1)?.state.disabled).toBe(true);
+  });
+
+  it('should put the book transform back on zoom-out', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    const original = book.style.transform;
+    turn.zoom(2).zoom(1);
+    expect(book.style.transform).toBe(original);
+  });
+
+  it('should re-clamp the pan when the size changes', () => {
+    const turn = new Turn(book, { width: 800, height: 400 });
+    turn.zoom(2);
+    turn.zooming.panBy(-1000, -1000);
+    expect(book.style.transform).toBe('translate(-800px, -400px) scale(2)');
+
+    turn.size(400, 200);
+    expect(book.style.transform).toBe('translate(-400px, -200px) scale(2)');
+  });
+
+  describe('gestures', () => {
+    it('should stay off unless enabled', () => {
+      const turn = new Turn(book, { width: 800, height: 400 });
+      book.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }));
+      expect(turn.zoom()).toBe(1);
+    });
+
+    it('should toggle zoom around the pointer on double-click', () => {
+      const turn = new Turn(book, { width: 800, height: 400, zoom: true });
+
+      book.dispatchEvent(new MouseEvent('dblclick', { clientX: 0, clientY: 0, bubbles: true }));
+      expect(turn.zoom()).toBe(2);
+      expect(book.style.transform).toBe('translate(0px, 0px) scale(2)');
+
+      book.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }));
+      expect(turn.zoom()).toBe(1);
+    });
+
+    it('should pan while dragging a zoomed book', () => {
+      const turn = new Turn(book, { width: 800, height: 400, zoom: true });
+      turn.zoom(2);
+
+      book.dispatchEvent(pointerEvent('pointerdown', 1, 100, 100, 'mouse'));
+      document.dispatchEvent(pointerEvent('pointermove', 1, 50, 150, 'mouse'));
+      document.dispatchEvent(pointerEvent('pointerup', 1, 50, 150, 'mouse'));
+      document.dispatchEvent(pointerEvent('pointermove', 1, 0, 0, 'mouse'));
+
+      expect(turn.zooming.x).toBe(-450);
+      expect(turn.zooming.y).toBe(-150);
+    });
+
+    it('should zoom on double-tap', () => {
+      const turn = new Turn(book, { width: 800, height: 400, zoom: true });
+
+      book.dispatchEvent(pointerEvent('pointerdown', 1, 10, 10));
+      document.dispatchEvent(pointerEvent('pointerup', 1, 10, 10));
+      vi.advanceTimersByTime(100);
+      book.dispatchEvent(pointerEvent('pointerdown', 2, 12, 10));
+      expect(turn.zoom()).toBe(2);
+    });
+
+    it('should not treat slow taps as a double-tap', () => {
+      const turn = new Turn(book, { width: 800, height: 400, zoom: true });
+
+      book.dispatchEvent(pointerEvent('pointerdown', 1, 10, 10));
+      document.dispatchEvent(pointerEvent('pointerup', 1, 10, 10));
+      vi.advanceTimersByTime(500);
+      book.dispatchEvent(pointerEvent('pointerdown', 2, 10, 10));
+      expect(turn.zoom()).toBe(1);
+    });
+
+    it('should follow the distance between two fingers when pinching', () => {
+      const turn = new Turn(book, { width: 800, height: 400, zoom: true });
+
+      book.dispatchEvent(pointerEvent('pointerdown', 1, 300, 200));
+      book.dispatchEvent(pointerEvent('pointerdown', 2, 400, 200));
+      document.dispatchEvent(pointerEvent('pointermove', 1, 250, 200));
+      expect(turn.zoom()).toBe(1.5);
+
+      document.dispatchEvent(pointerEvent('pointerup', 2, 400, 200));
+      document.dispatchEvent(pointerEvent('pointermove', 1, 0, 200));
+      expect(turn.zoom()).toBe(1.5);
+    });
+
+    it('should remove its listeners on destroy', () => {
+      const turn = new Turn(book, { width: 800, height: 400, zoom: true });
+      turn.destroy();
+      book.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }));
+      expect(turn.zoom()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Reading-session analytics: how long each page stays in view, what set off each turn,
+ * pages let go without turning and when the reader comes and goes, sent in batches
+ */
+
+import type { Turn } from './engine/turn.js';
+import { engineOf } from './instance.js';
+
+import type {
+  AnalyticsOptions,
+  AnalyticsRecord,
+  AnalyticsTracker,
+  SessionEndRecord,
+  SessionStartRecord,
+  TurnInstance,
+  TurnSource
+} from './types.js';
+
+/** Distributes `Omit` over the record types so each keeps its own fields */
+type RecordFields<T> = T extends AnalyticsRecord ? Omit<T, 'session' | 'time'> : never;
+
+export class Analytics implements AnalyticsTracker {
+  readonly turn: Turn;
+  readonly options: Required<AnalyticsOptions>;
+
+  private records: AnalyticsRecord[] = [];
+  private session = 0;
+  private sessionStart: number | null = null;
+  /** When each page in view came into it */
+  private shown = new Map<number, number>();
+  /** The page and source of the turn announced but not finished yet */
+  private pending: { readonly from: number; readonly source: TurnSource } | null = null;
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(turn: Turn, options: AnalyticsOptions) {
+    this.turn = turn;
+    this.options = {
+      sink: options.sink,
+      batchSize: options.batchSize ?? 20,
+      flushInterval: options.flushInterval ?? 10000
+    };
+
+    const { element } = turn;
+    element.addEventListener('turning', this.handleTurning);
+    element.addEventListener('turned', this.handleTurned);
+    element.addEventListener('destroyed', this.handleDestroyed);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    if (this.options.flushInterval > 0) {
+      this.timer = setInterval(() => this.flush(), this.options.flushInterval);
+    }
+    turn.analytics = this;
+
+    if (document.visibilityState !== 'hidden') this.startSession('attach');
+  }
+
+  flush(): void {
+    if (!this.records.length) return;
+    const records = this.records;
+    this.records = [];
+    this.options.sink(records);
+  }
+
+  detach(): void {
+    this.end('detach');
+  }
+
+  /** @internal Called by the book when a grabbed page falls back */
+  dragAborted(page: number): void {
+    if (this.sessionStart !== null) this.record({ type: 'drag-abort', page });
+  }
+
+  private record(fields: RecordFields<AnalyticsRecord>): void {
+    this.records.push({ ...fields, session: this.session, time: Date.now() } as AnalyticsRecord);
+    if (this.records.length >= this.options.batchSize) this.flush();
+  }
+
+  private startSession(reason: SessionStartRecord['reason']): void {
+    const view = this.turn.view().filter(Boolean);
+    this.session++;
+    this.sessionStart = Date.now();
+    this.record({ type: 'session-start', reason, view });
+    this.show(view);
+  }
+
+  private endSession(reason: SessionEndRecord['reason']): void {
+    const { sessionStart } = this;
+    if (sessionStart === null) return;
+
+    this.show([]);
+    this.pending = null;
+    this.record({ type: 'session-end', reason, duration: Date.now() - sessionStart });
+    this.sessionStart = null;
+  }
+
+  /** Records the pages leaving the view and starts timing those coming into it */
+  private show(view: readonly number[]): void {
+    const now = Date.now();
+    this.shown.forEach((since, page) => {
+      if (view.includes(page)) return;
+      this.shown.delete(page);
+      this.record({ type: 'page-view', page, duration: now - since });
+    });
+    view.forEach(page => {
+      if (!this.shown.has(page)) this.shown.set(page, now);
+    });
+  }
+
+  private end(reason: 'detach' | 'destroy'): void {
+    const { element } = this.turn;
+    element.removeEventListener('turning', this.handleTurning);
+    element.removeEventListener('turned', this.handleTurned);
+    element.removeEventListener('destroyed', this.handleDestroyed);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    clearInterval(this.timer);
+    if (this.turn.analytics === this) this.turn.analytics = undefined;
+
+    this.endSession(reason);
+    this.flush();
+  }
+
+  private readonly handleTurning = (): void => {
+    const { turn } = this;
+    this.pending = { from: turn.state.page, source: turn.turnSource };
+  };
+
+  private readonly handleTurned = (event: Event): void => {
+    if (this.sessionStart === null) return;
+    const { page, view } = (event as CustomEvent<{ page: number; view: readonly number[] }>).detail;
+
+    const { pending } = this;
+    this.pending = null;
+    if (pending && pending.from !== page) {
+      this.record({ type: 'turn', from: pending.from, to: page, source: pending.source });
+    }
+    this.show(view.filter(Boolean));
+  };
+
+  private readonly handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.endSession('hidden');
+      this.flush();
+    } else if (this.sessionStart === null) {
+      this.startSession('visible');
+    }
+  };
+
+  private readonly handleDestroyed = (): void => this.end('destroy');
+}
+
+/**
+ * Tracks reading sessions on the book behind `instance` and hands the records to
+ * `options.sink` in batches. Tracking stops with `detach()` or when the book is destroyed.
+ */
+export const attachAnalytics = (
+  instance: TurnInstance,
+  options: AnalyticsOptions
+): AnalyticsTracker => {
+  const turn = engineOf(instance, 'attachAnalytics');
+  if (turn.analytics) throw new Error('Analytics are already attached to this book');
+  return new Analytics(turn, options);
+};
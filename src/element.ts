@@ -0,0 +1,341 @@
+/**
+ * `<page-turn>`: a custom element that makes a book of its children
+ */
+
+import { Turn } from './engine/turn.js';
+import { wrapInstance } from './instance.js';
+
+import type {
+  AutoplayController,
+  AutoplayOptions,
+  Bookmark,
+  Corner,
+  Direction,
+  DisplayMode,
+  NavigationOptions,
+  PageOptions,
+  Size,
+  TocEntry,
+  TransitionMode,
+  TurnEventName,
+  TurnEventPayload,
+  TurnInstance,
+  TurnOptions,
+  TurnWhenHandlers
+} from './types.js';
+
+/** Attributes read as `TurnOptions`; all but `duration` also change a live book */
+const observedAttributes = ['width', 'height', 'display', 'page', 'duration'] as const;
+
+type PageTurnAttribute = (typeof observedAttributes)[number];
+
+/** Lets the module load where there is no DOM, such as during server rendering */
+const Base = (typeof HTMLElement === 'undefined' ? class {} : HTMLElement) as typeof HTMLElement;
+
+export interface PageTurnEventMap extends HTMLElementEventMap {
+  turned: CustomEvent<TurnEventPayload<'turned'>>;
+  first: CustomEvent<void>;
+  last: CustomEvent<void>;
+  pageschange: CustomEvent<TurnEventPayload<'pageschange'>>;
+  bookmarkadd: CustomEvent<Bookmark>;
+  bookmarkremove: CustomEvent<Bookmark>;
+}
+
+/**
+ * Creates its book when connected and destroys it when disconnected. Children added
+ * later become the last pages and children taken out are removed from the book. The
+ * engine fires `turned`, `first` and `last` on the element itself as CustomEvents.
+ */
+export class PageTurnElement extends Base implements TurnInstance {
+  static get observedAttributes(): readonly string[] {
+    return observedAttributes;
+  }
+
+  private engine: Turn | null = null;
+  private turnInstance: TurnInstance | null = null;
+  private readonly observer = new MutationObserver(records => this.handleMutations(records));
+  /** Page shown when the element was disconnected, shown again when it comes back */
+  private lastPage?: number;
+
+  /** The book behind the element; only there while the element is connected */
+  get instance(): TurnInstance {
+    if (!this.turnInstance) throw new Error('<page-turn> has no book until it is connected');
+    return this.turnInstance;
+  }
+
+  connectedCallback(): void {
+    if (this.engine) return;
+
+    this.engine = new Turn(this, this.readOptions());
+    this.turnInstance = wrapInstance(this.engine);
+    this.observer.observe(this, { childList: true, subtree: true });
+  }
+
+  disconnectedCallback(): void {
+    const { turnInstance } = this;
+    if (!turnInstance) return;
+
+    this.observer.disconnect();
+    this.lastPage = turnInstance.page() as number;
+    this.engine = this.turnInstance = null;
+    turnInstance.destroy();
+  }
+
+  attributeChangedCallback(
+    name: PageTurnAttribute,
+    _previous: string | null,
+    value: string | null
+  ): void {
+    if (name === 'page') this.lastPage = undefined;
+
+    const { turnInstance } = this;
+    if (!turnInstance || value === null) return;
+
+    if (name === 'width' || name === 'height') {
+      const size = turnInstance.size() as Size;
+      turnInstance.size(
+        this.readNumber('width') ?? size.width,
+        this.readNumber('height') ?? size.height
+      );
+    } else if (name === 'display') {
+      turnInstance.display(value as DisplayMode);
+    } else if (name === 'page') {
+      const page = this.readNumber('page');
+      if (page !== undefined) turnInstance.page(page);
+    }
+  }
+
+  addEventListener<K extends keyof PageTurnEventMap>(
+    type: K,
+    listener: (this: PageTurnElement, event: PageTurnEventMap[K]) => unknown,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void {
+    super.addEventListener(type, listener, options);
+  }
+
+  removeEventListener<K extends keyof PageTurnEventMap>(
+    type: K,
+    listener: (this: PageTurnElement, event: PageTurnEventMap[K]) => unknown,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void {
+    super.removeEventListener(type, listener, options);
+  }
+
+  addPage(element: HTMLElement, page?: number, options?: PageOptions): TurnInstance {
+    return this.instance.addPage(element, page, options);
+  }
+
+  hasPage(page: number): boolean {
+    return this.instance.hasPage(page);
+  }
+
+  display(mode?: DisplayMode): DisplayMode | TurnInstance {
+    return this.instance.display(mode);
+  }
+
+  direction(direction?: Direction): Direction | TurnInstance {
+    return this.instance.direction(direction);
+  }
+
+  transition(mode?: TransitionMode): TransitionMode | TurnInstance {
+    return this.instance.transition(mode);
+  }
+
+  animating(): boolean {
+    return this.instance.animating();
+  }
+
+  disable(disabled?: boolean): TurnInstance {
+    return this.instance.disable(disabled);
+  }
+
+  size(width?: number, height?: number): Size | TurnInstance {
+    return this.instance.size(width, height);
+  }
+
+  resize(): void {
+    this.instance.resize();
+  }
+
+  removePage(page: number): TurnInstance {
+    return this.instance.removePage(page);
+  }
+
+  pages(total?: number): number | TurnInstance {
+    return this.instance.pages(total);
+  }
+
+  range(page?: number): readonly [number, number] {
+    return this.instance.range(page);
+  }
+
+  view(page?: number): readonly number[] {
+    return this.instance.view(page);
+  }
+
+  page(page?: number, options?: NavigationOptions): number | TurnInstance {
+    return this.instance.page(page, options);
+  }
+
+  goTo(page: number | string, options?: NavigationOptions): Promise<void> {
+    return this.instance.goTo(page, options);
+  }
+
+  next(options?: NavigationOptions): Promise<void> {
+    return this.instance.next(options);
+  }
+
+  previous(options?: NavigationOptions): Promise<void> {
+    return this.instance.previous(options);
+  }
+
+  stop(): TurnInstance {
+    return this.instance.stop();
+  }
+
+  peel(corner?: Corner, amount?: number): TurnInstance {
+    return this.instance.peel(corner, amount);
+  }
+
+  unpeel(): TurnInstance {
+    return this.instance.unpeel();
+  }
+
+  autoplay(options?: AutoplayOptions): AutoplayController {
+    return this.instance.autoplay(options);
+  }
+
+  zoom(level?: number): number | TurnInstance {
+    return this.instance.zoom(level);
+  }
+
+  toc(): readonly TocEntry[] {
+    return this.instance.toc();
+  }
+
+  bookmarks(): readonly Bookmark[] {
+    return this.instance.bookmarks();
+  }
+
+  addBookmark(page: number | string, label?: string): TurnInstance {
+    return this.instance.addBookmark(page, label);
+  }
+
+  removeBookmark(page: number | string): TurnInstance {
+    return this.instance.removeBookmark(page);
+  }
+
+  clearProgress(): TurnInstance {
+    return this.instance.clearProgress();
+  }
+
+  on<TName extends TurnEventName>(
+    event: TName,
+    handler: NonNullable<TurnWhenHandlers[TName]>
+  ): TurnInstance {
+    return this.instance.on(event, handler);
+  }
+
+  off<TName extends TurnEventName>(
+    event: TName,
+    handler: NonNullable<TurnWhenHandlers[TName]>
+  ): TurnInstance {
+    return this.instance.off(event, handler);
+  }
+
+  destroy(): void {
+    this.disconnectedCallback();
+  }
+
+  private readNumber(name: PageTurnAttribute): number | undefined {
+    const value = this.getAttribute(name);
+    return value === null || value.trim() === '' || isNaN(Number(value))
+      ? undefined
+      : Number(value);
+  }
+
+  private readOptions(): Partial<TurnOptions> {
+    const display = this.getAttribute('display');
+    return {
+      width: this.readNumber('width'),
+      height: this.readNumber('height'),
+      page: this.lastPage ?? this.readNumber('page'),
+      duration: this.readNumber('duration'),
+      display: display ? (display as DisplayMode) : undefined
+    };
+  }
+
+  /**
+   * Adds children put into the element as pages and removes pages taken out of it, and
+   * opens the book once a book connected without children gets its first pages
+   */
+  private handleMutations(records: readonly MutationRecord[]): void {
+    const { engine } = this;
+    if (!engine) return;
+
+    const { state } = engine;
+    const pages = new Set(state.pageObjs.values());
+    const wrappers = new Set(state.pageWrap.values());
+    const removed = new Set<Node>();
+    const added = new Set<Node>();
+
+    records.forEach(record => {
+      record.removedNodes.forEach(node => removed.add(node));
+      if (record.target === this) record.addedNodes.forEach(node => added.add(node));
+    });
+
+    const pageOf = (node: Node): number | undefined =>
+      Array.from(state.pageObjs.entries()).find(([, element]) => element === node)?.[0];
+
+    removed.forEach(node => {
+      const page = pageOf(node);
+      if (page && !this.contains(node) && state.pageWrap.has(page)) engine.removePage(page);
+    });
+
+    added.forEach(node => {
+      const owned =
+        pages.has(node as HTMLElement) ||
+        wrappers.has(node as HTMLElement) ||
+        node === state.fparent ||
+        node === engine.accessibility?.liveRegion;
+      if (!owned && node instanceof HTMLElement && node.parentNode === this) engine.addPage(node);
+    });
+
+    if (!state.page && state.totalPages) engine.page(this.readNumber('page') ?? 1);
+  }
+}
+
+/** Registers the element as `<page-turn>`, or under another `name`; later calls do nothing */
+export const definePageTurn = (name = 'page-turn'): void => {
+  if (customElements.get(name)) return;
+  customElements.define(
+    name,
+    name === 'page-turn' ? PageTurnElement : class extends PageTurnElement {}
+  );
+};
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'page-turn': PageTurnElement;
+  }
+}
@@ -0,0 +1,839 @@
+/**
+ * Folding behavior of a single page: corner detection, fold geometry and the
+ * peel, turn and hide animations
+ */
+
+import type { Corner, CornerGroup, Size } from '../types.js';
+import { createAnimation, type Animation, type AnimationOptions } from '../utils/animation.js';
+import {
+  createDiv,
+  isVisible,
+  pageOffset,
+  setStyle,
+  setTransform,
+  type StyleMap
+} from '../utils/dom.js';
+import {
+  bezier,
+  foldGradient,
+  point,
+  rotate,
+  translate,
+  type GradientStop,
+  type Point
+} from '../utils/geometry.js';
+import type { Turn } from './turn.js';
+
+const HALF_PI = Math.PI / 2;
+
+/** Swaps the x and y axes; a flip in a vertical book folds in these swapped axes */
+const TRANSPOSE = 'matrix(0, 1, 1, 0, 0, 0)';
+
+const transposedKeys: Record<string, string> = {
+  left: 'top',
+  top: 'left',
+  right: 'bottom',
+  bottom: 'right',
+  width: 'height',
+  height: 'width'
+};
+
+const transposeStyles = (styles: StyleMap): StyleMap =>
+  Object.fromEntries(
+    Object.entries(styles).map(([key, value]) => [transposedKeys[key] ?? key, value])
+  );
+
+const transposePoint = ({ x, y }: Point): Point => point(y, x);
+
+export interface CornerPoint extends Point {
+  corner: Corner;
+}
+
+/** Document coordinates of a mouse or touch contact */
+export interface PointerPosition {
+  readonly pageX: number;
+  readonly pageY: number;
+}
+
+export interface FlipOptions {
+  page: number;
+  next: number;
+  corners: CornerGroup;
+  cornerSize: number;
+  duration: number;
+  acceleration: boolean;
+  frontGradient: boolean;
+  backGradient: boolean;
+  zIndex: number | null;
+  /** Swings on the spine as a rigid board instead of folding */
+  hard: boolean;
+  /** Set when `next` was redirected for a turn that skips pages */
+  force?: boolean;
+  /** Page registered as moving while this flip is folded */
+  pageMv?: number;
+}
+
+export interface FlipState {
+  opts: FlipOptions;
+  /** Clips and positions the page while it folds */
+  readonly wrapper: HTMLElement;
+  /** Holds the back of the page, outside the page wrapper */
+  readonly fwrapper: HTMLElement;
+  readonly fpage: HTMLElement;
+  readonly ashadow?: HTMLElement;
+  bshadow?: HTMLElement;
+  /** Shading over the front of a hard page */
+  hshadow?: HTMLElement;
+  /** Where the folding page lived before it was moved into `fpage` */
+  backParent?: HTMLElement;
+  point: CornerPoint | null;
+  corner: CornerPoint | null;
+  disabled: boolean;
+  effect?: Animation;
+  time: number;
+}
+
+const layer = (
+  top: number,
+  left: number,
+  zIndex?: number | string,
+  overflow = 'hidden'
+): StyleMap => ({
+  position: 'absolute',
+  top,
+  left,
+  overflow,
+  zIndex: zIndex || 'auto'
+});
+
+export class Flip {
+  readonly element: HTMLElement;
+  readonly turn: Turn;
+  /** The page wrapper the flip was created in */
+  readonly parent: HTMLElement;
+  readonly state: FlipState;
+
+  constructor(element: HTMLElement, turn: Turn, opts: FlipOptions) {
+    const parent = element.parentElement;
+    if (!parent) throw new Error('A page must be attached before it can fold');
+
+    this.element = element;
+    this.turn = turn;
+    this.parent = parent;
+
+    setStyle(element, { position: 'absolute', top: 0, left: 0, bottom: 'auto', right: 'auto' });
+
+    const wrapper = createDiv(undefined, layer(0, 0, element.style.zIndex));
+    parent.appendChild(wrapper);
+    wrapper.prepend(element);
+
+    const fwrapper = createDiv(undefined, { ...layer(0, 0), display: 'none' });
+    turn.foldParent().appendChild(fwrapper);
+
+    const fpage = createDiv(undefined, { cursor: 'default' });
+    fwrapper.appendChild(createDiv(undefined, layer(0, 0, 0, 'visible'))).appendChild(fpage);
+
+    let ashadow: HTMLElement | undefined;
+    if (opts.frontGradient) {
+      ashadow = createDiv(undefined, layer(0, 0, 1));
+      fpage.appendChild(ashadow);
+    }
+
+    this.state = {
+      opts,
+      wrapper,
+      fwrapper,
+      fpage,
+      ashadow,
+      point: null,
+      corner: null,
+      disabled: false,
+      time: 0
+    };
+
+    this.resize(true);
+  }
+
+  /** Size of the page along the flip's own axes, which are swapped in vertical books */
+  size(): Size {
+    const { width, height } = this.turn.pageSize();
+    return this.vertical() ? { width: height, height: width } : { width, height };
+  }
+
+  vertical(): boolean {
+    return this.turn.state.orientation === 'vertical';
+  }
+
+  setOptions(opts: Partial<FlipOptions>): this {
+    const { hard } = this.state.opts;
+    Object.assign(this.state.opts, opts);
+    if (this.state.opts.hard !== hard) this.resize(true);
+    return this;
+  }
+
+  disable(disabled: boolean): this {
+    this.state.disabled = disabled;
+    return this;
+  }
+
+  z(zIndex: number | null): this {
+    this.state.opts.zIndex = zIndex;
+    this.state.fwrapper.style.zIndex = String(
+      zIndex || parseInt(this.parent.style.zIndex, 10) || 0
+    );
+    return this;
+  }
+
+  resize(full = false): this {
+    const { wrapper, fwrapper, fpage, ashadow, opts } = this.state;
+    const { width, height } = this.size();
+    const diagonal = Math.round(Math.sqrt(width * width + height * height));
+
+    if (full) {
+      setStyle(wrapper, { width: diagonal, height: diagonal });
+      setStyle(fwrapper, {
+        width: diagonal,
+        height: diagonal,
+        overflow: opts.hard ? 'visible' : 'hidden'
+      });
+      const holder = fwrapper.firstElementChild as HTMLElement | null;
+      if (holder) this.css(holder, { width, height });
+      if (opts.hard) {
+        this.css(fpage, { position: 'absolute', top: 0, width, height });
+        if (ashadow) this.css(ashadow, { width, height });
+      } else {
+        this.css(fpage, { position: '', top: '', left: '', width: height, height: width });
+        if (ashadow) this.css(ashadow, { width: height, height: width });
+      }
+      if (this.backGradient() && this.state.bshadow) {
+        this.css(this.state.bshadow, { width, height });
+      }
+    }
+
+    if (isVisible(this.parent)) {
+      const origin = pageOffset(this.parent);
+      const book = pageOffset(this.turn.element);
+      setStyle(fwrapper, { top: origin.top - book.top, left: origin.left - book.left });
+    }
+
+    return this.z(opts.zIndex);
+  }
+
+  /** Whether an animation is running on this page */
+  moving(): boolean {
+    return this.state.effect?.running === true;
+  }
+
+  isTurning(): boolean {
+    return this.moving() && this.state.effect?.options.turning === true;
+  }
+
+  /** Turns the page completely, starting from the grabbed corner if there is one */
+  turnPage(corner?: Corner): void {
+    const { state } = this;
+    const target: CornerPoint = {
+      corner: state.corner?.corner ?? corner ?? state.point?.corner ?? this.allowedCorners()[0],
+      x: 0,
+      y: 0
+    };
+    const from = state.point ?? this.cornerPoint(target.corner);
+    const to = this.cornerTarget(target.corner);
+
+    this.turn.onFlipTurn(this);
+    this.animatef({
+      from: [0],
+      to: [1],
+      duration: state.point
+        ? this.completionTime(from, to, state.opts.duration)
+        : state.opts.duration,
+      easing: this.turn.state.opts.easing,
+      turning: true,
+      frame: ([t]) => {
+        const p = bezier(from, from, to, to, t);
+        target.x = p.x;
+        target.y = p.y;
+        this.showFoldedPage(target);
+      },
+      complete: () => this.turn.onFlipEnd(this, true)
+    });
+
+    state.corner = null;
+  }
+
+  /** Folds the page toward `target`, optionally easing from the current fold */
+  showFoldedPage(target: CornerPoint, animate = false): boolean {
+    const { state } = this;
+    const folding = this.foldingPage();
+
+    if (!state.point || state.point.corner !== target.corner) {
+      if (!this.turn.onFlipStart(this, target.corner)) return false;
+    }
+
+    if (!folding) return false;
+
+    if (animate) {
+      const from =
+        state.point && state.point.corner === target.corner
+          ? state.point
+          : this.cornerPoint(target.corner, 1);
+
+      this.animatef({
+        from: [from.x, from.y],
+        to: [target.x, target.y],
+        duration: 500,
+        frame: ([x, y]) => {
+          target.x = Math.round(x);
+          target.y = Math.round(y);
+          this.fold(target);
+        }
+      });
+    } else {
+      this.fold(target);
+      if (this.moving() && !state.effect?.options.turning) this.animatef();
+    }
+
+    if (state.fwrapper.style.display === 'none') {
+      const turnState = this.turn.state;
+      this.turn.foldParent().style.display = '';
+      turnState.folds++;
+      this.moveFoldingPage(true);
+      state.fwrapper.style.display = '';
+      if (state.bshadow) state.bshadow.style.display = '';
+    }
+
+    return true;
+  }
+
+  /** Unfolds the page, easing back to its corner when `animate` is set */
+  hideFoldedPage(animate = false): void {
+    const { state } = this;
+    const current = state.point;
+    if (!current) return;
+
+    const hide = (): void => {
+      state.point = null;
+      this.hide();
+      this.turn.onFlipEnd(this, false);
+    };
+
+    if (!animate) {
+      this.animatef();
+      hide();
+      return;
+    }
+
+    const end = this.cornerPoint(current.corner);
+    const delta =
+      current.corner[0] === 't'
+        ? Math.min(0, current.y - end.y) / 2
+        : Math.max(0, current.y - end.y) / 2;
+    const c1 = point(current.x, current.y + delta);
+    const c2 = point(end.x, end.y - delta);
+
+    this.animatef({
+      from: [0],
+      to: [1],
+      duration: this.completionTime(current, end, 800),
+      hiding: true,
+      frame: ([t]) => {
+        const p = bezier(current, c1, c2, end, t);
+        current.x = p.x;
+        current.y = p.y;
+        this.fold(current);
+      },
+      complete: hide
+    });
+  }
+
+  /** Resets every transform applied while folding */
+  hide(): void {
+    const { state } = this;
+    const turnState = this.turn.state;
+    const folding = this.foldingPage();
+
+    if (turnState.folds > 0 && --turnState.folds === 0) {
+      this.turn.foldParent().style.display = 'none';
+    }
+
+    this.css(this.element, { left: 0, top: 0, right: 'auto', bottom: 'auto' });
+    this.transform(this.element, '', '0% 100%');
+    this.transform(state.wrapper, '', '0% 100%');
+    this.element.style.visibility = '';
+    state.fwrapper.style.visibility = '';
+    state.fwrapper.style.display = 'none';
+    if (state.hshadow) state.hshadow.style.display = 'none';
+    if (state.bshadow) state.bshadow.style.display = 'none';
+    if (folding) this.transform(folding, '', '0% 0%');
+  }
+
+  /** Moves the page shown on the back of the fold into place, or back where it was */
+  moveFoldingPage(move: boolean): void {
+    const { state } = this;
+    const folding = this.foldingPage();
+    if (!folding) return;
+
+    if (move) {
+      if (!state.fpage.children[state.ashadow ? 1 : 0]) {
+        state.backParent = folding.parentElement ?? undefined;
+        state.fpage.prepend(folding);
+      }
+    } else if (state.backParent) {
+      state.backParent.prepend(folding);
+    }
+  }
+
+  /** Detaches the page and its fold layers from the document */
+  remove(): void {
+    this.animatef();
+    this.state.fwrapper.remove();
+    this.element.remove();
+  }
+
+  eventStart(position: PointerPosition): boolean {
+    const { state } = this;
+    if (state.disabled || this.isTurning()) return false;
+
+    state.corner = this.cornerActivated(position);
+    if (state.corner && this.foldingPage()) {
+      this.moveFoldingPage(true);
+      this.turn.onFlipPressed(this);
+      return true;
+    }
+
+    state.corner = null;
+    return false;
+  }
+
+  eventMove(position: PointerPosition): void {
+    const { state } = this;
+    if (state.disabled) return;
+
+    if (state.corner) {
+      const { x, y } = this.localPoint(position);
+      state.corner.x = x;
+      state.corner.y = y;
+      this.showFoldedPage(state.corner);
+      this.turn.onFlipMoved(this);
+    } else if (!this.moving() && isVisible(this.element)) {
+      const corner = this.cornerActivated(position);
+      if (corner) {
+        const p = this.cornerPoint(corner.corner, state.opts.cornerSize / 2);
+        corner.x = p.x;
+        corner.y = p.y;
+        this.showFoldedPage(corner, true);
+      } else {
+        this.hideFoldedPage(true);
+      }
+    }
+  }
+
+  /** Lets go of the page; a cancelled release always lets it fall back */
+  eventEnd(release = true): void {
+    const { state } = this;
+    if (
+      !state.disabled &&
+      state.point &&
+      !(release && this.turn.onFlipReleased(this, state.point))
+    ) {
+      if (state.corner) this.turn.onFlipAborted(this);
+      this.hideFoldedPage(true);
+    }
+    state.corner = null;
+  }
+
+  /** The page element revealed on the back of the fold */
+  foldingPage(): HTMLElement | null {
+    const { pageObjs, display } = this.turn.state;
+    const next = pageObjs.get(this.state.opts.next);
+    if (display === 'single') return next ? (pageObjs.get(0) ?? null) : null;
+    return next ?? null;
+  }
+
+  /** Point on the page at `corner`, moved inward by `offset` */
+  cornerPoint(corner: Corner, offset = 0): Point {
+    const { width, height } = this.size();
+    return {
+      tl: point(offset, offset),
+      tr: point(width - offset, offset),
+      bl: point(offset, height - offset),
+      br: point(width - offset, height - offset)
+    }[corner];
+  }
+
+  /** Point the corner travels to when the page turns completely */
+  cornerTarget(corner: Corner): Point {
+    const { width, height } = this.size();
+    return {
+      tl: point(2 * width, 0),
+      tr: point(-width, 0),
+      bl: point(2 * width, height),
+      br: point(-width, height)
+    }[corner];
+  }
+
+  allowedCorners(): readonly Corner[] {
+    return this.turn.corners[this.state.opts.corners];
+  }
+
+  private cornerActivated(position: PointerPosition): CornerPoint | null {
+    const { width, height } = this.size();
+    const size = this.state.opts.cornerSize;
+    const local = this.localPoint(position);
+    const x = Math.max(0, local.x);
+    const y = Math.max(0, local.y);
+
+    if (x <= 0 || y <= 0 || x >= width || y >= height) return null;
+
+    const vertical = y < size ? 't' : y >= height - size ? 'b' : null;
+    const horizontal = x <= size ? 'l' : x >= width - size ? 'r' : null;
+    if (!vertical || !horizontal) return null;
+
+    const corner = `${vertical}${horizontal}` as Corner;
+    return this.allowedCorners().includes(corner) ? { x, y, corner } : null;
+  }
+
+  /** Pointer position relative to the page, along the flip's own axes */
+  private localPoint(position: PointerPosition): Point {
+    const origin = pageOffset(this.parent);
+    const local = point(position.pageX - origin.left, position.pageY - origin.top);
+    return this.vertical() ? transposePoint(local) : local;
+  }
+
+  /** Sets styles given along the flip's own axes */
+  private css(element: HTMLElement, styles: StyleMap): void {
+    setStyle(element, this.vertical() ? transposeStyles(styles) : styles);
+  }
+
+  /** Sets a transform given along the flip's own axes, conjugating it for vertical books */
+  private transform(element: HTMLElement, transform: string, origin?: string): void {
+    if (!this.vertical()) {
+      setTransform(element, transform, origin);
+      return;
+    }
+
+    setTransform(
+      element,
+      transform.trim() ? `${TRANSPOSE} ${transform} ${TRANSPOSE}` : '',
+      origin?.split(' ').reverse().join(' ')
+    );
+  }
+
+  /** Builds a fold gradient for a box given along the flip's own axes */
+  private gradient(
+    width: number,
+    height: number,
+    start: Point,
+    end: Point,
+    stops: readonly GradientStop[]
+  ): string {
+    return this.vertical()
+      ? foldGradient(height, width, transposePoint(start), transposePoint(end), stops)
+      : foldGradient(width, height, start, end, stops);
+  }
+
+  private backGradient(): boolean {
+    const { opts } = this.state;
+    const { display, totalPages } = this.turn.state;
+    const enabled =
+      opts.backGradient &&
+      (display === 'single' || (opts.page !== 2 && opts.page !== totalPages - 1));
+
+    if (enabled && !this.state.bshadow) {
+      const { width, height } = this.size();
+      const bshadow = createDiv(undefined, { ...layer(0, 0, 1), position: '', width, height });
+      this.parent.appendChild(bshadow);
+      this.state.bshadow = bshadow;
+    }
+
+    return enabled;
+  }
+
+  /** How long a page let go at `from` takes to reach `to` at the book's `completionSpeed` */
+  private completionTime(from: Point, to: Point, fallback: number): number {
+    const speed = this.turn.state.opts.completionSpeed;
+    return speed && speed > 0 ? Math.hypot(to.x - from.x, to.y - from.y) / speed : fallback;
+  }
+
+  private animatef(options?: AnimationOptions): void {
+    const { state } = this;
+    state.effect?.stop();
+    state.effect = undefined;
+    if (!options) return;
+
+    const effect = createAnimation({
+      clock: this.turn.state.opts.clock,
+      ...options,
+      complete: () => {
+        if (state.effect === effect) state.effect = undefined;
+        options.complete?.();
+      }
+    });
+    state.effect = effect;
+    effect.start();
+  }
+
+  /**
+   * Swings a hard page on the spine. Past the vertical the page itself is hidden and
+   * the page behind it shows through `fpage`, rotating down onto the other side.
+   */
+  private hardFold(target: CornerPoint): void {
+    const { state } = this;
+    const { opts, wrapper, fwrapper, fpage, ashadow } = state;
+    const { width, height } = this.size();
+    const folding = this.foldingPage();
+    const left = target.corner[1] === 'l';
+    const holder = fpage.parentElement!;
+
+    target.x = Math.min(Math.max(target.x, -width), 2 * width);
+    const ratio = Math.min(Math.max(left ? (width - target.x) / width : target.x / width, -1), 1);
+    const angle = Math.round((Math.acos(ratio) * 180) / Math.PI);
+    const sign = left ? 1 : -1;
+    const perspective = `perspective(${3 * width}px)`;
+    const front = angle <= 90;
+
+    this.css(this.element, { left: 0, top: 0, right: 'auto', bottom: 'auto' });
+    this.transform(this.element, '');
+    this.transform(
+      wrapper,
+      `${perspective} rotateY(${sign * angle}deg)`,
+      `${left ? width : 0}px ${height / 2}px`
+    );
+    this.element.style.visibility = front ? '' : 'hidden';
+
+    this.transform(fwrapper, '');
+    this.transform(holder, '');
+    this.css(fpage, { left: left ? width : -width });
+    this.transform(
+      fpage,
+      `${perspective} rotateY(${sign * (angle - 180)}deg)`,
+      `${left ? 0 : width}px ${height / 2}px`
+    );
+    if (folding) this.transform(folding, '');
+    fwrapper.style.visibility = front ? 'hidden' : '';
+
+    if (opts.frontGradient) {
+      if (!state.hshadow) {
+        state.hshadow = createDiv(undefined, { ...layer(0, 0, 1), width, height });
+        wrapper.appendChild(state.hshadow);
+      }
+
+      const vertical = this.vertical();
+      const shade = (spine: 'left' | 'right', amount: number): string => {
+        const away = spine === 'left' ? 'right' : 'left';
+        const side = vertical ? transposedKeys[away] : away;
+        const { theme } = this.turn;
+        return `linear-gradient(to ${side}, ${theme.shadow(0.4 * amount)}, ${theme.shadow(0.1 * amount)})`;
+      };
+
+      state.hshadow.style.display = '';
+      state.hshadow.style.backgroundImage = shade(left ? 'right' : 'left', angle / 90);
+      if (ashadow) {
+        ashadow.style.backgroundImage = shade(left ? 'left' : 'right', (180 - angle) / 90);
+      }
+    }
+
+    state.point = target;
+  }
+
+  private fold(target: CornerPoint): void {
+    const { state } = this;
+    if (state.opts.hard) {
+      this.hardFold(target);
+      return;
+    }
+
+    const { opts, wrapper, fwrapper, fpage, ashadow } = state;
+    const { width, height } = this.size();
+    const diagonal = Math.round(Math.sqrt(width * width + height * height));
+    const folding = this.foldingPage();
+    const use3d = opts.acceleration;
+    const origin = this.cornerPoint(target.corner);
+    const top = target.corner[0] === 't';
+    const left = target.corner[1] === 'l';
+    const holder = fpage.parentElement!;
+
+    let a = 0;
+    let alpha = 0;
+    let tr = point(0, 0);
+    let mv = point(0, 0);
+    let df = point(0, 0);
+    let gradientStartV = 0;
+    let gradientOpacity = 1;
+    let gradientEndPointA = point(0, 0);
+    let gradientEndPointB = point(0, 0);
+
+    const compute = (): void => {
+      const rel = point(
+        origin.x ? origin.x - target.x : target.x,
+        origin.y ? origin.y - target.y : target.y
+      );
+      const tan = Math.atan2(rel.y, rel.x);
+
+      alpha = HALF_PI - tan;
+      a = (alpha / Math.PI) * 180;
+
+      const middle = point(left ? width - rel.x / 2 : target.x + rel.x / 2, rel.y / 2);
+      const gamma = alpha - Math.atan2(middle.y, middle.x);
+      const distance = Math.max(
+        0,
+        Math.sin(gamma) * Math.sqrt(middle.x * middle.x + middle.y * middle.y)
+      );
+
+      tr = point(distance * Math.sin(alpha), distance * Math.cos(alpha));
+
+      if (alpha > HALF_PI) {
+        tr.x = tr.x + Math.abs(tr.y * Math.tan(tan));
+        tr.y = 0;
+
+        if (Math.round(tr.x * Math.tan(Math.PI - alpha)) < height) {
+          target.y = Math.sqrt(height * height + 2 * middle.x * rel.x);
+          if (top) target.y = height - target.y;
+          return compute();
+        }
+
+        const beta = Math.PI - alpha;
+        const dd = diagonal - height / Math.sin(beta);
+        mv = point(Math.round(dd * Math.cos(beta)), Math.round(dd * Math.sin(beta)));
+        if (left) mv.x = -mv.x;
+        if (top) mv.y = -mv.y;
+      }
+
+      const px = Math.round(tr.y / Math.tan(alpha) + tr.x);
+      const side = width - px;
+      const sideX = side * Math.cos(alpha * 2);
+      const sideY = side * Math.sin(alpha * 2);
+      const gradientSize = side * Math.sin(alpha);
+
+      df = point(
+        Math.round(left ? side - sideX : px + sideX),
+        Math.round(top ? sideY : height - sideY)
+      );
+
+      const end = this.cornerTarget(target.corner);
+      const far = Math.sqrt(Math.pow(end.x - target.x, 2) + Math.pow(end.y - target.y, 2));
+      gradientOpacity = far < width ? far / width : 1;
+
+      if (opts.frontGradient) {
+        gradientStartV = gradientSize > 100 ? (gradientSize - 100) / gradientSize : 0;
+        gradientEndPointA = point(
+          ((gradientSize * Math.sin(HALF_PI - alpha)) / height) * 100,
+          ((gradientSize * Math.cos(HALF_PI - alpha)) / width) * 100
+        );
+        if (top) gradientEndPointA.y = 100 - gradientEndPointA.y;
+        if (left) gradientEndPointA.x = 100 - gradientEndPointA.x;
+      }
+
+      if (this.backGradient()) {
+        gradientEndPointB = point(
+          ((gradientSize * Math.sin(alpha)) / width) * 100,
+          ((gradientSize * Math.cos(alpha)) / height) * 100
+        );
+        if (!left) gradientEndPointB.x = 100 - gradientEndPointB.x;
+        if (!top) gradientEndPointB.y = 100 - gradientEndPointB.y;
+      }
+
+      tr.x = Math.round(tr.x);
+      tr.y = Math.round(tr.y);
+    };
+
+    const place = (
+      offset: Point,
+      edges: readonly [number, number, number, number],
+      transformOrigin: readonly [number, number],
+      angle: number
+    ): void => {
+      const values = ['0', 'auto'];
+      const mvW = ((width - diagonal) * transformOrigin[0]) / 100;
+      const mvH = ((height - diagonal) * transformOrigin[1]) / 100;
+      const position = {
+        left: values[edges[0]],
+        top: values[edges[1]],
+        right: values[edges[2]],
+        bottom: values[edges[3]]
+      };
+      const aliasing = angle !== 90 && angle !== -90 ? (left ? -1 : 1) : 0;
+      const originCss = `${transformOrigin[0]}% ${transformOrigin[1]}%`;
+
+      this.css(this.element, position);
+      this.transform(
+        this.element,
+        rotate(angle) + translate(offset.x + aliasing, offset.y, use3d),
+        originCss
+      );
+      this.css(holder, position);
+      this.transform(
+        wrapper,
+        translate(-offset.x + mvW - aliasing, -offset.y + mvH, use3d) + rotate(-angle),
+        originCss
+      );
+      this.transform(
+        fwrapper,
+        translate(-offset.x + mv.x + mvW, -offset.y + mv.y + mvH, use3d) + rotate(-angle),
+        originCss
+      );
+      this.transform(
+        holder,
+        rotate(angle) + translate(offset.x + df.x - mv.x, offset.y + df.y - mv.y, use3d),
+        originCss
+      );
+
+      if (opts.frontGradient && ashadow) {
+        ashadow.style.backgroundImage = this.gradient(
+          height,
+          width,
+          point(left ? 100 : 0, top ? 100 : 0),
+          gradientEndPointA,
+          this.turn.theme.foldStops(gradientStartV, gradientOpacity)
+        );
+      }
+
+      if (this.backGradient() && state.bshadow) {
+        const stops: GradientStop[] = [
+          [0.8, 'transparent'],
+          [1, this.turn.theme.shadow(0.3 * gradientOpacity)],
+          [1, 'transparent']
+        ];
+        state.bshadow.style.backgroundImage = this.gradient(
+          width,
+          height,
+          point(left ? 0 : 100, top ? 0 : 100),
+          gradientEndPointB,
+          stops
+        );
+      }
+    };
+
+    switch (target.corner) {
+      case 'tl':
+        target.x = Math.max(target.x, 1);
+        compute();
+        place(tr, [1, 0, 0, 1], [100, 0], a);
+        this.transform(fpage, translate(-height, -width, use3d) + rotate(90 - a * 2), '100% 100%');
+        if (folding) this.transform(folding, rotate(90) + translate(0, -height, use3d), '0% 0%');
+        break;
+      case 'tr':
+        target.x = Math.min(target.x, width - 1);
+        compute();
+        place(point(-tr.x, tr.y), [0, 0, 0, 1], [0, 0], -a);
+        this.transform(fpage, translate(0, -width, use3d) + rotate(-90 + a * 2), '0% 100%');
+        if (folding) this.transform(folding, rotate(270) + translate(-width, 0, use3d), '0% 0%');
+        break;
+      case 'bl':
+        target.x = Math.max(target.x, 1);
+        compute();
+        place(point(tr.x, -tr.y), [1, 1, 0, 0], [100, 100], -a);
+        this.transform(fpage, translate(-height, 0, use3d) + rotate(-90 + a * 2), '100% 0%');
+        if (folding) this.transform(folding, rotate(270) + translate(-width, 0, use3d), '0% 0%');
+        break;
+      case 'br':
+        target.x = Math.min(target.x, width - 1);
+        compute();
+        place(point(-tr.x, -tr.y), [0, 1, 1, 0], [0, 100], a);
+        this.transform(fpage, rotate(90 - a * 2), '0% 0%');
+        if (folding) this.transform(folding, rotate(90) + translate(0, -height, use3d), '0% 0%');
+        break;
+    }
+
+    state.point = target;
+  }
+}
@@ -0,0 +1,1565 @@
+/**
+ * Book-level page-turn engine: page bookkeeping, the visible range, z-ordering
+ * and navigation. Each visible page folds through its own `Flip`.
+ */
+
+import type {
+  AutoplayOptions,
+  Corner,
+  CornerGroup,
+  Direction,
+  DisplayMode,
+  NavigationOptions,
+  Orientation,
+  PageOptions,
+  Size,
+  SwipeOptions,
+  TocEntry,
+  TransitionMode,
+  TurnEventHandler,
+  TurnEventDetail,
+  TurnEventName,
+  TurnEventPayload,
+  TurnOptions,
+  TurnSource
+} from '../types.js';
+import {
+  createDiv,
+  getElementData,
+  hasTouch,
+  removeElementData,
+  setStyle,
+  type StyleMap
+} from '../utils/dom.js';
+import { easingFunction, type EasingFunction } from '../utils/animation.js';
+import { translate } from '../utils/geometry.js';
+import { Accessibility } from '../features/accessibility.js';
+import { AutoPeel } from '../features/auto-peel.js';
+import { Bookmarks } from '../features/bookmarks.js';
+import { Autoplay } from '../features/autoplay.js';
+import { Responsive } from '../features/responsive.js';
+import { Navigation } from '../features/navigation.js';
+import { PageLoader } from '../features/page-loader.js';
+import { Persistence } from '../features/persistence.js';
+import { Plugins } from '../features/plugins.js';
+import { Routing } from '../features/routing.js';
+import { Theme } from '../features/theme.js';
+import { Transition } from '../features/transition.js';
+import { Zoom } from '../features/zoom.js';
+import { staticPage, takeOverStatic } from '../static.js';
+import { Flip, type CornerPoint, type FlipOptions } from './flip.js';
+import type { Analytics } from '../analytics.js';
+import type { Sync } from '../sync.js';
+
+const displays: readonly DisplayMode[] = ['single', 'double'];
+
+const cancelableEvents: readonly TurnEventName[] = ['start', 'turning'];
+
+const directions: readonly Direction[] = ['ltr', 'rtl'];
+
+const defaultCorners: Record<CornerGroup, readonly Corner[]> = {
+  backward: ['bl', 'tl'],
+  forward: ['br', 'tr'],
+  all: ['tl', 'bl', 'tr', 'br']
+};
+
+/** Wrapper placement for left (even in ltr) and right (odd in ltr) pages */
+const wrapperPositions: readonly StyleMap[] = [
+  { top: 0, left: 0, right: 'auto', bottom: 'auto' },
+  { top: 0, right: 0, left: 'auto', bottom: 'auto' }
+];
+
+/** Wrapper placement for top and bottom pages in vertical books */
+const verticalWrapperPositions: readonly StyleMap[] = [
+  { top: 0, left: 0, right: 'auto', bottom: 'auto' },
+  { bottom: 0, left: 0, right: 'auto', top: 'auto' }
+];
+
+const mirrorCorner = (corner: Corner): Corner =>
+  `${corner[0]}${corner[1] === 'l' ? 'r' : 'l'}` as Corner;
+
+/** Maps a corner between a vertical book and the swapped axes its flips fold in */
+const transposeCorner = (corner: Corner): Corner =>
+  `${corner[1] === 'l' ? 't' : 'b'}${corner[0] === 't' ? 'l' : 'r'}` as Corner;
+
+const defaultSwipe: Required<SwipeOptions> = { velocity: 0.5, distance: 30 };
+
+let has3d: boolean | undefined;
+
+const supports3d = (): boolean => {
+  has3d ??= 'WebKitCSSMatrix' in window || 'perspective' in document.body.style;
+  return has3d;
+};
+
+type DefaultedOption =
+  | 'width'
+  | 'height'
+  | 'page'
+  | 'gradients'
+  | 'duration'
+  | 'acceleration'
+  | 'display'
+  | 'direction'
+  | 'orientation'
+  | 'cornerSize';
+
+export type ResolvedTurnOptions = Omit<TurnOptions, 'easing'> &
+  Required<Pick<TurnOptions, DefaultedOption>> & { readonly easing: EasingFunction };
+
+export interface TurnState {
+  readonly opts: ResolvedTurnOptions;
+  /** Page elements by page number; page 0 is the blank back used in single display */
+  readonly pageObjs: Map<number, HTMLElement>;
+  /** Flips for the pages that can currently be grabbed */
+  readonly pages: Map<number, Flip>;
+  readonly pageWrap: Map<number, HTMLElement>;
+  /** Which page's wrapper each page is shown in; 0 when it is out of the DOM */
+  readonly pagePlace: Map<number, number>;
+  /** Pages that are currently folding */
+  pageMv: number[];
+  totalPages: number;
+  page: number;
+  /** Page being turned to */
+  tpage?: number;
+  display: DisplayMode;
+  direction: Direction;
+  readonly orientation: Orientation;
+  disabled: boolean;
+  width: number;
+  height: number;
+  /** Set once construction has finished */
+  done: boolean;
+  /** Container for the back sides of folding pages */
+  fparent?: HTMLElement;
+  /** Number of pages whose back side is shown */
+  folds: number;
+  destroyed: boolean;
+}
+
+export interface ZOrder {
+  readonly pageZ: Record<number, number>;
+  readonly partZ: Record<number, number>;
+  readonly pageV: Record<number, boolean>;
+}
+
+/**
+ * Wraps a typed handler as a DOM listener that unpacks the event detail, adding
+ * `preventDefault()` to the payload of the events that may be cancelable; it does nothing
+ * on the ones fired without a way back
+ */
+export const toListener =
+  <TName extends TurnEventName>(
+    handler: TurnEventHandler<TurnEventPayload<TName>>
+  ): EventListener =>
+  event => {
+    const { detail } = event as CustomEvent<TurnEventDetail<TName>>;
+    const payload = cancelableEvents.includes(event.type as TurnEventName)
+      ? { ...(detail as object), preventDefault: () => event.preventDefault() }
+      : detail;
+    handler(payload as TurnEventPayload<TName>);
+  };
+
+/** Where and when a pointer that may turn out to be a swipe went down */
+interface SwipeStart {
+  readonly pointerId: number;
+  readonly pageX: number;
+  readonly pageY: number;
+  readonly time: number;
+}
+
+/** The attributes a page or book element had before the engine touched it */
+interface AttributeSnapshot {
+  readonly className: string | null;
+  readonly style: string | null;
+}
+
+const snapshot = (element: Element): AttributeSnapshot => ({
+  className: element.getAttribute('class'),
+  style: element.getAttribute('style')
+});
+
+const restore = (element: Element, { className, style }: AttributeSnapshot): void => {
+  if (className === null) element.removeAttribute('class');
+  else element.setAttribute('class', className);
+  if (style === null) element.removeAttribute('style');
+  else element.setAttribute('style', style);
+};
+
+/** Gets the engine attached to an element by a previous `new Turn()` */
+export const getTurn = (element: Element): Turn | undefined =>
+  getElementData(element).get('turn') as Turn | undefined;
+
+export class Turn {
+  readonly element: HTMLElement;
+  readonly state: TurnState;
+  readonly accessibility?: Accessibility;
+  readonly responsive?: Responsive;
+  readonly pageLoader?: PageLoader;
+  readonly autoPeel?: AutoPeel;
+  readonly routing?: Routing;
+  readonly persistence?: Persistence;
+  readonly zooming: Zoom;
+  readonly navigation: Navigation;
+  readonly transitions: Transition;
+  readonly bookmarks: Bookmarks;
+  readonly theme: Theme;
+  readonly plugins: Plugins;
+  /** @internal Set by `attachAnalytics` while a reading session is being tracked */
+  analytics?: Analytics;
+  /** @internal Set by `linkTurn` while the book mirrors others */
+  sync?: Sync;
+  /** @internal What set off the turn being guarded or announced right now */
+  turnSource: TurnSource = 'api';
+
+  /** Corner groups for a left-to-right book */
+  private readonly cornerGroups: Record<CornerGroup, readonly Corner[]>;
+  private readonly snapshots = new Map<Element, AttributeSnapshot>();
+  private readonly listeners: [string, EventListener][] = [];
+  private readonly teardowns: (() => void)[] = [];
+  /** Hardness set through `addPage`, which wins over `data-hard` */
+  private readonly hardPages = new WeakMap<HTMLElement, boolean>();
+  /** Ids and labels given through `addPage`, which win over the data attributes */
+  private readonly pageNames = new WeakMap<HTMLElement, Pick<PageOptions, 'id' | 'label'>>();
+  private readonly swipeOptions: Required<SwipeOptions> | null;
+  /** The pointer holding a corner; any other pointer is ignored until it lets go */
+  private activePointer: number | null = null;
+  private swipe: SwipeStart | null = null;
+  private player: Autoplay | null = null;
+  /** Bumped by every guard and by `stop()`, so that a late `beforeTurn` answer is dropped */
+  private guardId = 0;
+  private guarding = false;
+
+  constructor(element: HTMLElement, options: Partial<TurnOptions> = {}) {
+    const children = Array.from(element.children) as HTMLElement[];
+    const opts: ResolvedTurnOptions = {
+      ...options,
+      width: options.width ?? element.offsetWidth,
+      height: options.height ?? element.offsetHeight,
+      page: options.page ?? staticPage(element) ?? 1,
+      gradients: options.gradients ?? true,
+      duration: options.duration ?? 600,
+      easing: easingFunction(options.easing ?? 'circ-out'),
+      acceleration: options.acceleration ?? true,
+      display: options.display ?? 'double',
+      direction: options.direction ?? 'ltr',
+      orientation: options.orientation ?? 'horizontal',
+      cornerSize: options.cornerSize ?? 100
+    };
+
+    this.element = element;
+    takeOverStatic(element);
+    this.theme = new Theme(this, opts.theme);
+    this.plugins = new Plugins(this, opts.plugins);
+    this.cornerGroups = { ...defaultCorners, ...opts.corners };
+    this.swipeOptions =
+      opts.swipe === false
+        ? null
+        : { ...defaultSwipe, ...(typeof opts.swipe === 'object' ? opts.swipe : {}) };
+    this.state = {
+      opts,
+      pageObjs: new Map(),
+      pages: new Map(),
+      pageWrap: new Map(),
+      pagePlace: new Map(),
+      pageMv: [],
+      totalPages: opts.pages ?? 0,
+      page: 0,
+      display: opts.display,
+      direction: opts.direction,
+      orientation: opts.orientation,
+      disabled: false,
+      width: opts.width,
+      height: opts.height,
+      done: false,
+      folds: 0,
+      destroyed: false
+    };
+
+    this.snapshots.set(element, snapshot(element));
+    getElementData(element).set('turn', this);
+    this.zooming = new Zoom(this, opts.zoom);
+    this.navigation = new Navigation(this);
+    this.transitions = new Transition(this, opts.transition);
+    this.bookmarks = new Bookmarks(this);
+
+    Object.entries(opts.when ?? {}).forEach(([event, handler]) => {
+      const listener = toListener(handler as TurnEventHandler<unknown>);
+      element.addEventListener(event, listener);
+      this.listeners.push([event, listener]);
+    });
+
+    setStyle(element, {
+      position: 'relative',
+      width: opts.width,
+      height: opts.height,
+      touchAction: this.zooming.options.gestures
+        ? 'none'
+        : opts.orientation === 'vertical'
+          ? 'pan-x'
+          : 'pan-y'
+    });
+    this.display(opts.display);
+
+    if (supports3d() && !hasTouch() && opts.acceleration) {
+      element.style.transform = translate(0, 0, true);
+    }
+
+    children.forEach((child, i) => this.addPage(child, i + 1));
+    if (opts.pageProvider) this.pageLoader = new PageLoader(this, opts.pageProvider);
+    if (opts.routing) this.routing = new Routing(this, opts.routing === true ? {} : opts.routing);
+    if (opts.persistence) this.persistence = new Persistence(this, opts.persistence);
+    this.page(this.routing?.read() ?? this.persistence?.page ?? opts.page);
+
+    element.addEventListener('pointerdown', this.handlePointerStart);
+    document.addEventListener('pointermove', this.handlePointerMove);
+    document.addEventListener('pointerup', this.handlePointerEnd);
+    document.addEventListener('pointercancel', this.handlePointerEnd);
+
+    this.state.done = true;
+
+    if (opts.responsive) {
+      this.responsive = new Responsive(this, opts.responsive === true ? {} : opts.responsive);
+    }
+
+    if (opts.accessibility) {
+      this.accessibility = new Accessibility(
+        this,
+        opts.accessibility === true ? {} : opts.accessibility
+      );
+    }
+
+    if (opts.autoPeel) {
+      this.autoPeel = new AutoPeel(this, opts.autoPeel === true ? {} : opts.autoPeel);
+    }
+
+    this.persistence?.restore();
+  }
+
+  /**
+   * Dispatches an engine event on the book element; returns false if it was prevented.
+   * Events that cannot be prevented bubble, so that ancestors of the book hear them.
+   */
+  emit<TName extends TurnEventName>(
+    event: TName,
+    detail: TurnEventDetail<TName>,
+    cancelable = cancelableEvents.includes(event)
+  ): boolean {
+    return this.element.dispatchEvent(
+      new CustomEvent(event, { detail, cancelable, bubbles: !cancelable })
+    );
+  }
+
+  addPage(element: HTMLElement, page?: number, options: PageOptions = {}): this {
+    const { state } = this;
+    const lastPage = state.totalPages + 1;
+    let incPages = false;
+
+    if (page === undefined || page === lastPage) {
+      page = lastPage;
+      incPages = true;
+    } else if (page > lastPage) {
+      throw new Error(
+        `It is impossible to add the page "${page}", the maximum value is: "${lastPage}"`
+      );
+    }
+
+    if (page < 1) return this;
+
+    const inserting = state.pageObjs.has(page);
+    if (state.done) this.stop();
+    if (incPages || inserting) state.totalPages += 1;
+    if (inserting) this.movePages(page, 1);
+
+    if (!this.snapshots.has(element)) this.snapshots.set(element, snapshot(element));
+    if (options.hard !== undefined) this.hardPages.set(element, options.hard);
+    if (options.id !== undefined || options.label !== undefined) {
+      this.pageNames.set(element, { id: options.id, label: options.label });
+    }
+    element.classList.add('turn-page', `p${page}`);
+    state.pageObjs.set(page, element);
+    this.addPageToDOM(page);
+
+    if (state.done) this.update();
+    this.removeFromDOM();
+    if (state.done) {
+      this.emit('pageschange', { pages: state.totalPages });
+      this.plugins.notify('pageAdded', page, element);
+    }
+    return this;
+  }
+
+  /**
+   * Removes every listener and layer the engine added and puts the pages back, in
+   * page order, as plain children of the book element. Fires `destroyed` when done.
+   */
+  destroy(): void {
+    const { state, element } = this;
+    if (state.destroyed) return;
+
+    this.plugins.destroy();
+    this.stop();
+    this.navigation.destroy();
+    this.transitions.destroy();
+    this.zooming.destroy();
+    this.theme.destroy();
+    this.pageLoader?.destroy();
+    this.routing?.destroy();
+    this.persistence?.destroy();
+    this.responsive?.destroy();
+    this.accessibility?.destroy();
+    this.autoPeel?.destroy();
+    this.player?.stop();
+    this.player = null;
+    element.removeEventListener('pointerdown', this.handlePointerStart);
+    document.removeEventListener('pointermove', this.handlePointerMove);
+    document.removeEventListener('pointerup', this.handlePointerEnd);
+    document.removeEventListener('pointercancel', this.handlePointerEnd);
+    this.activePointer = null;
+    this.swipe = null;
+
+    state.pages.forEach(flip => flip.remove());
+    state.pageWrap.forEach(wrap => wrap.remove());
+    state.fparent?.remove();
+    state.pageObjs.get(0)?.remove();
+    state.pageObjs.delete(0);
+
+    Array.from(state.pageObjs.entries())
+      .sort(([a], [b]) => a - b)
+      .forEach(([, page]) => {
+        const original = this.snapshots.get(page);
+        if (original) restore(page, original);
+        element.appendChild(page);
+      });
+    restore(element, this.snapshots.get(element)!);
+
+    state.pageObjs.clear();
+    state.pages.clear();
+    state.pageWrap.clear();
+    state.pagePlace.clear();
+    state.pageMv = [];
+    delete state.fparent;
+    this.snapshots.clear();
+    removeElementData(element);
+    state.destroyed = true;
+
+    this.emit('destroyed', undefined);
+
+    this.listeners.splice(0).forEach(([event, listener]) => {
+      element.removeEventListener(event, listener);
+    });
+    this.teardowns.splice(0).forEach(teardown => teardown());
+  }
+
+  /** Registers cleanup to run after `destroy()` has fired `destroyed` */
+  addTeardown(teardown: () => void): void {
+    this.teardowns.push(teardown);
+  }
+
+  hasPage(page: number): boolean {
+    return this.state.pageObjs.has(page);
+  }
+
+  /** Id of `page`, from `addPage` or `data-page-id` */
+  pageId(page: number): string | undefined {
+    const element = this.state.pageObjs.get(page);
+    if (!page || !element) return undefined;
+    return this.pageNames.get(element)?.id ?? element.dataset.pageId;
+  }
+
+  /** Label of `page`, from `addPage` or `data-page-label` */
+  pageLabel(page: number): string | undefined {
+    const element = this.state.pageObjs.get(page);
+    if (!page || !element) return undefined;
+    return this.pageNames.get(element)?.label ?? element.dataset.pageLabel;
+  }
+
+  /** Number of the page with `id`, or undefined when no page in the book has it */
+  pageOf(id: string): number | undefined {
+    return Array.from(this.state.pageObjs.keys())
+      .sort((a, b) => a - b)
+      .find(page => this.pageId(page) === id);
+  }
+
+  /** The pages with an id or a label, in page order */
+  toc(): TocEntry[] {
+    return Array.from(this.state.pageObjs.keys())
+      .filter(page => page > 0)
+      .sort((a, b) => a - b)
+      .flatMap(page => {
+        const id = this.pageId(page);
+        const label = this.pageLabel(page);
+        if (id === undefined && label === undefined) return [];
+        return [{ page, ...(id !== undefined && { id }), ...(label !== undefined && { label }) }];
+      });
+  }
+
+  /** Bookmarks `page`, a number or a page id */
+  addBookmark(page: number | string, label?: string): this {
+    this.bookmarks.add(this.resolvePage(page), label);
+    return this;
+  }
+
+  removeBookmark(page: number | string): this {
+    this.bookmarks.remove(this.resolvePage(page));
+    return this;
+  }
+
+  /** Forgets the progress saved for `persistence` */
+  clearProgress(): this {
+    this.persistence?.clear();
+    return this;
+  }
+
+  /** Whether `page` swings as a rigid board: set by `addPage`, `data-hard` or `hardCovers` */
+  isHard(page: number): boolean {
+    const { pageObjs, totalPages, opts } = this.state;
+    const element = pageObjs.get(page);
+    if (!page || !element) return false;
+
+    const hard = this.hardPages.get(element);
+    if (hard !== undefined) return hard;
+    if (element.dataset.hard !== undefined) return element.dataset.hard !== 'false';
+    return opts.hardCovers === true && (page <= 2 || page > totalPages - 2);
+  }
+
+  removePage(page: number): this {
+    const { state } = this;
+    if (!state.pageObjs.has(page)) return this;
+
+    this.stop();
+    this.bookmarks.remove(page);
+    this.removePageFromDOM(page);
+    state.pageObjs.delete(page);
+    state.totalPages -= 1;
+    this.movePages(page, -1);
+
+    if (state.totalPages && state.page > state.totalPages) {
+      // The page shown is gone, so the book falls back whatever the handlers say
+      this.announce(state.totalPages, false);
+      this.fitPage(state.totalPages);
+    } else {
+      this.makeRange();
+    }
+
+    this.emit('pageschange', { pages: state.totalPages });
+    this.plugins.notify('pageRemoved', page);
+    return this;
+  }
+
+  display(): DisplayMode;
+  display(mode: DisplayMode): this;
+  display(mode?: DisplayMode): DisplayMode | this {
+    const { state } = this;
+    if (mode === undefined) return state.display;
+
+    if (!displays.includes(mode)) throw new Error(`"${String(mode)}" is not a value for display`);
+
+    if (mode === 'single') {
+      if (!state.pageObjs.has(0)) {
+        this.stop();
+        this.element.style.overflow = 'hidden';
+        const temporal = createDiv('turn-page p-temporal', {
+          width: state.width,
+          height: state.height
+        });
+        this.element.appendChild(temporal);
+        state.pageObjs.set(0, temporal);
+      }
+    } else if (state.pageObjs.has(0)) {
+      this.stop();
+      this.element.style.overflow = '';
+      state.pageObjs.get(0)!.remove();
+      state.pageObjs.delete(0);
+    }
+
+    const previous = state.display;
+    state.display = mode;
+
+    if (state.done) {
+      this.movePages(1, 0);
+      this.size(state.width, state.height);
+      this.update();
+      if (previous !== mode) {
+        this.emit('displaychange', { display: mode, previous });
+        this.plugins.notify('optionsChange', { option: 'display', value: mode, previous });
+      }
+    }
+
+    return this;
+  }
+
+  transition(): TransitionMode;
+  transition(mode: TransitionMode): this;
+  transition(mode?: TransitionMode): TransitionMode | this {
+    if (mode === undefined) return this.transitions.mode;
+
+    const previous = this.transitions.mode;
+    this.transitions.set(mode);
+    if (mode !== previous) {
+      this.plugins.notify('optionsChange', { option: 'transition', value: mode, previous });
+    }
+    return this;
+  }
+
+  direction(): Direction;
+  direction(direction: Direction): this;
+  direction(direction?: Direction): Direction | this {
+    const { state } = this;
+    if (direction === undefined) return state.direction;
+
+    if (!directions.includes(direction)) {
+      throw new Error(`"${String(direction)}" is not a value for direction`);
+    }
+
+    if (direction !== state.direction) {
+      const previous = state.direction;
+      this.stop();
+      state.direction = direction;
+      this.movePages(1, 0);
+      this.resize();
+      this.update();
+      this.emit('directionchange', { direction, previous });
+      this.plugins.notify('optionsChange', { option: 'direction', value: direction, previous });
+    }
+
+    return this;
+  }
+
+  /** Corner groups for the current direction, along the axes the flips fold in */
+  get corners(): Record<CornerGroup, readonly Corner[]> {
+    const groups = this.cornerGroups;
+    if (this.state.direction === 'ltr') return groups;
+
+    return {
+      forward: groups.forward.map(mirrorCorner),
+      backward: groups.backward.map(mirrorCorner),
+      all: groups.all.map(mirrorCorner)
+    };
+  }
+
+  animating(): boolean {
+    return this.state.pageMv.length > 0 || this.transitions.running;
+  }
+
+  disable(disabled?: boolean): this {
+    const { state } = this;
+    const previous = state.disabled;
+    state.disabled = disabled === undefined || disabled;
+    state.pages.forEach(flip => flip.disable(this.cornersLocked()));
+    if (state.disabled !== previous) {
+      this.plugins.notify('optionsChange', { option: 'disabled', value: state.disabled, previous });
+    }
+    return this;
+  }
+
+  zoom(): number;
+  zoom(level: number): this;
+  zoom(level?: number): number | this {
+    if (level === undefined) return this.zooming.level;
+    this.zooming.set(level);
+    return this;
+  }
+
+  size(): Size;
+  size(width: number, height: number): this;
+  size(width?: number, height?: number): Size | this {
+    const { state } = this;
+    if (width === undefined || height === undefined) {
+      return { width: state.width, height: state.height };
+    }
+
+    const previous = { width: state.width, height: state.height };
+    state.width = width;
+    state.height = height;
+    setStyle(this.element, { width, height });
+
+    const page = { ...this.pageSize() };
+    const temporal = state.pageObjs.get(0);
+    if (temporal) setStyle(temporal, page);
+
+    state.pageWrap.forEach((wrap, n) => {
+      const pageObj = state.pageObjs.get(n);
+      if (pageObj) setStyle(pageObj, page);
+      setStyle(wrap, page);
+    });
+
+    this.resize();
+    this.zooming.apply();
+    if (width !== previous.width || height !== previous.height) {
+      this.plugins.notify('optionsChange', { option: 'size', value: { width, height }, previous });
+    }
+    return this;
+  }
+
+  /** Size of a single page for the current display */
+  pageSize(): Size {
+    const { state } = this;
+    const double = state.display === 'double';
+    const vertical = state.orientation === 'vertical';
+    return {
+      width: double && !vertical ? state.width / 2 : state.width,
+      height: double && vertical ? state.height / 2 : state.height
+    };
+  }
+
+  resize(): void {
+    this.state.pages.forEach(flip => flip.resize(true));
+  }
+
+  pages(): number;
+  pages(total: number): this;
+  pages(total?: number): number | this {
+    const { state } = this;
+    if (total === undefined) return state.totalPages;
+
+    if (total < state.totalPages) {
+      for (let page = state.totalPages; page > total; page--) this.removePage(page);
+      if (state.page > total) this.page(total);
+    }
+
+    const changed = total !== state.totalPages;
+    state.totalPages = total;
+    if (changed && state.done) this.emit('pageschange', { pages: total });
+    return this;
+  }
+
+  /** Pages that should be in the DOM around `page` */
+  range(page?: number): [number, number] {
+    const { state } = this;
+    const { totalPages } = state;
+    page = page || state.tpage || state.page;
+
+    if (page < 1 || page > totalPages) throw new Error(`"${page}" is not a page for range`);
+
+    const view = this.rawView(page);
+    view[1] = view[1] || view[0];
+
+    let left: number;
+    let right: number;
+    const remainingPages = 2;
+
+    if (view[0] >= 1 && view[1] <= totalPages) {
+      if (totalPages - view[1] > view[0]) {
+        left = Math.min(view[0] - 1, remainingPages);
+        right = 2 * remainingPages - left;
+      } else {
+        right = Math.min(totalPages - view[1], remainingPages);
+        left = 2 * remainingPages - right;
+      }
+    } else {
+      left = right = 5;
+    }
+
+    return [Math.max(1, view[0] - left), Math.min(totalPages, view[1] + right)];
+  }
+
+  /** Pages shown for `page`, with 0 standing in for a missing side */
+  view(page?: number): number[] {
+    const { state } = this;
+    const view = this.rawView(page);
+
+    if (state.display === 'double') {
+      return [view[0] > 0 ? view[0] : 0, view[1] <= state.totalPages ? view[1] : 0];
+    }
+
+    return [view[0] > 0 && view[0] <= state.totalPages ? view[0] : 0];
+  }
+
+  page(): number;
+  page(page: number, options?: NavigationOptions): this;
+  page(page?: number, options: NavigationOptions = {}): number | this {
+    const { state } = this;
+    if (page === undefined) return state.page;
+
+    page = Math.trunc(page);
+    if (page > 0 && page <= state.totalPages) {
+      if (!this.navigation.driving) this.navigation.cancel();
+
+      const show = (target: number): void => {
+        if (!state.done || options.animate === false || this.view().includes(target)) {
+          this.fitPage(target);
+        } else {
+          this.turnPage(target);
+        }
+      };
+
+      if (page === state.page) show(page);
+      else this.guard(page, () => show(page));
+    }
+
+    return this;
+  }
+
+  next(): this {
+    return this.page(this.rawView(this.state.page).pop()! + 1);
+  }
+
+  previous(): this {
+    return this.page(this.rawView(this.state.page).shift()! - 1);
+  }
+
+  /**
+   * Turns to `page`, a number or a page id, once the navigations queued before it have
+   * settled. Resolves when the page is in view and rejects with a `TurnCancelledError`
+   * if it is interrupted; the id is looked up when the turn starts.
+   */
+  goTo(page: number | string, options: NavigationOptions = {}): Promise<void> {
+    return this.navigation.go(() => this.resolvePage(page), options.animate);
+  }
+
+  /** Like `next()`, but queued and settled the way `goTo()` is */
+  goNext(options: NavigationOptions = {}): Promise<void> {
+    return this.navigation.go(() => {
+      const page = this.rawView(this.state.page).pop()! + 1;
+      return page <= this.state.totalPages ? page : null;
+    }, options.animate);
+  }
+
+  /** Like `previous()`, but queued and settled the way `goTo()` is */
+  goPrevious(options: NavigationOptions = {}): Promise<void> {
+    return this.navigation.go(() => {
+      const page = this.rawView(this.state.page).shift()! - 1;
+      return page >= 1 ? page : null;
+    }, options.animate);
+  }
+
+  /** Finishes every running fold immediately and cancels the pending navigations and guards */
+  stop(): this {
+    this.guardId++;
+    this.guarding = false;
+    this.navigation.cancel();
+    return this.settle();
+  }
+
+  /**
+   * Lifts `corner` of the page in view that owns it by `amount` pixels, as when the
+   * corner is hovered; does nothing while the corner can't be grabbed
+   */
+  peel(corner?: Corner, amount = this.state.opts.cornerSize / 2): this {
+    const { state } = this;
+    if (corner !== undefined && !defaultCorners.all.includes(corner)) {
+      throw new Error(`"${String(corner)}" is not a value for corner`);
+    }
+
+    const vertical = state.orientation === 'vertical';
+    const flipCorner = corner
+      ? vertical
+        ? transposeCorner(corner)
+        : corner
+      : this.corners.forward[0];
+    const flip = this.view()
+      .map(page => state.pages.get(page))
+      .find(flip => flip?.allowedCorners().includes(flipCorner));
+
+    if (flip && !flip.state.disabled && !flip.state.corner && !flip.isTurning()) {
+      flip.showFoldedPage({ corner: flipCorner, ...flip.cornerPoint(flipCorner, amount) }, true);
+    }
+    return this;
+  }
+
+  /** Lets every peeled corner fall back, leaving pages that are held or turning alone */
+  unpeel(): this {
+    this.state.pages.forEach(flip => {
+      if (!flip.state.corner && !flip.isTurning()) flip.hideFoldedPage(true);
+    });
+    return this;
+  }
+
+  /** Starts a slideshow, stopping the one already running */
+  autoplay(options: AutoplayOptions = {}): Autoplay {
+    this.player?.stop();
+    this.player = new Autoplay(this, options);
+    return this.player;
+  }
+
+  /** @internal Runs `action` with `source` as what sets off the turns it makes */
+  withSource<T>(source: TurnSource, action: () => T): T {
+    const previous = this.turnSource;
+    this.turnSource = source;
+    try {
+      return action();
+    } finally {
+      this.turnSource = previous;
+    }
+  }
+
+  /** @internal Whether a turn is running or waiting for `beforeTurn` */
+  turnPending(): boolean {
+    return this.state.tpage !== undefined || this.guarding;
+  }
+
+  /** Finishes every running fold immediately */
+  private settle(): this {
+    const { state } = this;
+    const moving = state.pageMv;
+    state.pageMv = [];
+    this.transitions.stop();
+
+    if (state.tpage !== undefined) {
+      state.page = state.tpage;
+      delete state.tpage;
+    }
+
+    moving.forEach(page => {
+      const flip = state.pages.get(page);
+      if (!flip) return;
+
+      const opts = flip.state.opts;
+      flip.moveFoldingPage(false);
+      flip.hideFoldedPage();
+      state.pagePlace.set(opts.next, opts.next);
+
+      if (opts.force) {
+        opts.next = this.flipOptions(opts.page).next;
+        delete opts.force;
+      }
+    });
+
+    this.update();
+    return this;
+  }
+
+  /** Computes stacking for the wrappers and fold layers while pages are moving */
+  calculateZ(moving: readonly number[]): ZOrder {
+    const { state } = this;
+    const view = this.view();
+    const currentPage = view[0] || view[1];
+    const result = { pageZ: {}, partZ: {}, pageV: {} } as {
+      pageZ: Record<number, number>;
+      partZ: Record<number, number>;
+      pageV: Record<number, boolean>;
+    };
+
+    const addView = (page: number): void => {
+      const pageView = this.view(page);
+      if (pageView[0]) result.pageV[pageView[0]] = true;
+      if (pageView[1]) result.pageV[pageView[1]] = true;
+    };
+
+    moving.forEach(page => {
+      const flip = state.pages.get(page);
+      if (!flip) return;
+
+      const next = flip.state.opts.next;
+      const placePage = state.pagePlace.get(page) ?? 0;
+
+      addView(page);
+      addView(next);
+
+      const dpage = state.pagePlace.get(next) === next ? next : page;
+      result.pageZ[dpage] = state.totalPages - Math.abs(currentPage - dpage);
+      result.partZ[placePage] = 2 * state.totalPages + Math.abs(currentPage - dpage);
+    });
+
+    return result;
+  }
+
+  /** Re-applies visibility, stacking and grab state to every page in the DOM */
+  update(): void {
+    const { state } = this;
+
+    if (state.pageMv.length && state.pageMv[0] !== 0) {
+      const z = this.calculateZ(state.pageMv);
+
+      state.pageWrap.forEach((wrap, page) => {
+        setStyle(wrap, { display: z.pageV[page] ? '' : 'none', zIndex: z.pageZ[page] || 0 });
+
+        const flip = state.pages.get(page);
+        if (!flip) return;
+
+        flip.z(z.partZ[page] || null);
+        if (z.pageV[page]) flip.resize();
+        if (state.tpage !== undefined) flip.disable(true);
+      });
+    } else {
+      state.pageWrap.forEach((_wrap, page) => {
+        const location = this.setPageLoc(page);
+        state.pages
+          .get(page)
+          ?.setOptions({ hard: this.isHard(page) })
+          .disable(this.cornersLocked() || location !== 1)
+          .z(null);
+      });
+      this.theme.refresh();
+      this.accessibility?.refresh();
+    }
+  }
+
+  /** Gets, creating it on first use, the layer that holds the back sides of folds */
+  foldParent(): HTMLElement {
+    const { state } = this;
+    if (!state.fparent) {
+      state.fparent = createDiv(undefined, {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        overflow: 'visible',
+        zIndex: 'auto',
+        pointerEvents: 'none',
+        display: 'none'
+      });
+      state.folds = 0;
+      this.element.appendChild(state.fparent);
+    }
+    return state.fparent;
+  }
+
+  /** @internal Puts `element` in as `page`, replacing whatever was there, without stopping a turn */
+  loadPage(page: number, element: HTMLElement): void {
+    const { state } = this;
+    this.unloadPage(page);
+
+    this.snapshots.set(element, snapshot(element));
+    element.classList.add('turn-page', `p${page}`);
+    state.pageObjs.set(page, element);
+    this.addPageToDOM(page);
+  }
+
+  /** @internal Takes `page` out of the book and hands its element back untouched */
+  unloadPage(page: number): void {
+    const { state } = this;
+    const element = state.pageObjs.get(page);
+    if (!element) return;
+
+    this.removePageFromDOM(page);
+    state.pageObjs.delete(page);
+    const original = this.snapshots.get(element);
+    if (original) restore(element, original);
+    this.snapshots.delete(element);
+  }
+
+  /** @internal Called when a corner is grabbed */
+  onFlipPressed(flip: Flip): void {
+    this.state.pages.forEach(other => {
+      if (other !== flip) other.disable(true);
+    });
+    flip.state.time = Date.now();
+  }
+
+  /**
+   * @internal Called when a grabbed corner is let go. Returns true when the release
+   * completes the turn instead of letting the page fall back.
+   */
+  onFlipReleased(flip: Flip, point: CornerPoint): boolean {
+    const { opts, time } = flip.state;
+    if (Date.now() - time >= 200 && point.x >= 0 && point.x <= flip.size().width) return false;
+
+    let waiting = false;
+    let allowed = true;
+    this.withSource(Date.now() - time < 200 ? 'click' : 'drag', () =>
+      this.guard(
+        opts.next,
+        () => {
+          this.state.tpage = opts.next;
+          this.update();
+          flip.turnPage();
+        },
+        () => {
+          allowed = false;
+          if (waiting) {
+            this.onFlipAborted(flip);
+            flip.hideFoldedPage(true);
+          }
+        }
+      )
+    );
+    waiting = true;
+    return allowed;
+  }
+
+  /** @internal Called when a page that was held is let go and falls back */
+  onFlipAborted(flip: Flip): void {
+    this.analytics?.dragAborted(flip.state.opts.page);
+    this.sync?.released(flip);
+  }
+
+  /** @internal Called while a held corner is moved */
+  onFlipMoved(flip: Flip): void {
+    this.sync?.dragged(flip);
+  }
+
+  /** @internal Called before a page starts folding; returns false to keep it flat */
+  onFlipStart(flip: Flip, corner: Corner): boolean {
+    const { state } = this;
+    const opts = flip.state.opts;
+
+    const actualCorner = state.orientation === 'vertical' ? transposeCorner(corner) : corner;
+    if (!this.emit('start', { page: opts.page, corner: actualCorner })) return false;
+
+    if (state.display === 'single') {
+      const backward = (corner[1] === 'l') === (state.direction === 'ltr');
+      if ((opts.page === 1 && backward) || (opts.page === state.totalPages && !backward)) {
+        return false;
+      }
+
+      if (backward) {
+        opts.next = opts.next < opts.page ? opts.next : opts.page - 1;
+        opts.force = true;
+      } else {
+        opts.next = opts.next > opts.page ? opts.next : opts.page + 1;
+      }
+    }
+
+    opts.pageMv = opts.page;
+    this.addMv(opts.pageMv);
+    state.pagePlace.set(opts.next, opts.page);
+    this.update();
+    return true;
+  }
+
+  /** @internal Called when a fold finishes, either turned or fallen back */
+  onFlipEnd(flip: Flip, turned: boolean): void {
+    const { state } = this;
+    const opts = flip.state.opts;
+    const target = state.tpage;
+
+    if (turned || target !== undefined) {
+      if (
+        target !== undefined &&
+        (target === opts.next || target === opts.page || this.view(target).includes(opts.next))
+      ) {
+        delete state.tpage;
+        this.fitPage(target);
+      }
+    } else {
+      this.removeMv(opts.pageMv ?? opts.page);
+      this.update();
+    }
+  }
+
+  /** @internal Called when a page starts its turn animation */
+  onFlipTurn(flip: Flip): void {
+    this.emit('turn', flip.state.opts.next);
+  }
+
+  private readonly handlePointerStart = (event: PointerEvent): void => {
+    const tracked = this.activePointer ?? this.swipe?.pointerId;
+    this.swipe = null;
+    if (tracked !== undefined && tracked !== event.pointerId) return;
+
+    this.activePointer = null;
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    for (const flip of Array.from(this.state.pages.values())) {
+      if (flip.eventStart(event)) {
+        this.activePointer = event.pointerId;
+        event.preventDefault();
+        event.stopPropagation();
+        return;
+      }
+    }
+
+    if (this.swipeOptions && !this.locked()) {
+      const { pointerId, pageX, pageY } = event;
+      this.swipe = { pointerId, pageX, pageY, time: Date.now() };
+    }
+  };
+
+  private readonly handlePointerMove = (event: PointerEvent): void => {
+    const { activePointer } = this;
+    const hovering = activePointer === null;
+    // Touch has no hover, so a finger only folds a page it is holding
+    if (hovering ? event.pointerType === 'touch' : event.pointerId !== activePointer) return;
+    Array.from(this.state.pages.values()).forEach(flip => flip.eventMove(event));
+  };
+
+  private readonly handlePointerEnd = (event: PointerEvent): void => {
+    if (this.activePointer !== null && event.pointerId !== this.activePointer) return;
+
+    const release = event.type === 'pointerup';
+    this.activePointer = null;
+    Array.from(this.state.pages.values()).forEach(flip => flip.eventEnd(release));
+
+    const swipe = this.swipe;
+    if (swipe?.pointerId !== event.pointerId) return;
+    this.swipe = null;
+    if (release) this.finishSwipe(swipe, event);
+  };
+
+  /** Turns the page when a pointer went quickly enough along the binding axis */
+  private finishSwipe(start: SwipeStart, end: PointerEvent): void {
+    const { state, swipeOptions } = this;
+    if (!swipeOptions || this.locked()) return;
+
+    const dx = end.pageX - start.pageX;
+    const dy = end.pageY - start.pageY;
+    const [along, across] = state.orientation === 'vertical' ? [dy, dx] : [dx, dy];
+    const elapsed = Math.max(1, Date.now() - start.time);
+
+    if (
+      Math.abs(along) < swipeOptions.distance ||
+      Math.abs(along) < Math.abs(across) ||
+      Math.abs(along) / elapsed < swipeOptions.velocity
+    ) {
+      return;
+    }
+
+    this.withSource('drag', () =>
+      along < 0 === (state.direction === 'ltr') ? this.next() : this.previous()
+    );
+  }
+
+  /** Where a page folds to and which corners grab it, for the current display */
+  private flipOptions(page: number): Pick<FlipOptions, 'next' | 'corners' | 'hard'> {
+    const { display, totalPages } = this.state;
+    const single = display === 'single';
+    const odd = page % 2 === 1;
+
+    return {
+      next: single && page === totalPages ? page - 1 : odd || single ? page + 1 : page - 1,
+      corners: single ? 'all' : odd ? 'forward' : 'backward',
+      hard: this.isHard(page)
+    };
+  }
+
+  /** Whether the book ignores pointers right now, because it is disabled or zoomed */
+  private locked(): boolean {
+    return this.state.disabled || this.zooming.zoomed;
+  }
+
+  /** Whether corners can't be grabbed right now; only the curl transition folds them */
+  private cornersLocked(): boolean {
+    return this.locked() || this.transitions.mode !== 'curl';
+  }
+
+  private wrapperPosition(page: number): StyleMap {
+    const { display, direction, orientation } = this.state;
+    const positions = orientation === 'vertical' ? verticalWrapperPositions : wrapperPositions;
+    if (display === 'single') return positions[0];
+    return positions[direction === 'ltr' ? page % 2 : 1 - (page % 2)];
+  }
+
+  /** The number of `page`, which is either a number or a page id */
+  private resolvePage(page: number | string): number {
+    if (typeof page === 'number') return Math.trunc(page);
+
+    const found = this.pageOf(page);
+    if (found === undefined) throw new RangeError(`"${page}" is not the id of a page of this book`);
+    return found;
+  }
+
+  private rawView(page?: number): number[] {
+    const { state } = this;
+    page = page || state.page;
+    if (state.display === 'double') return page % 2 ? [page - 1, page] : [page, page + 1];
+    return [page];
+  }
+
+  private addPageToDOM(page: number): void {
+    const { state } = this;
+    const pageObj = state.pageObjs.get(page);
+    if (!pageObj) return;
+
+    if (!this.necessPage(page)) {
+      state.pagePlace.set(page, 0);
+      pageObj.remove();
+      return;
+    }
+
+    if (!state.pageWrap.has(page)) {
+      const size = { ...this.pageSize() };
+      setStyle(pageObj, size);
+      state.pagePlace.set(page, page);
+
+      const wrap = createDiv('turn-page-wrapper', {
+        position: 'absolute',
+        overflow: 'hidden',
+        ...size,
+        ...this.wrapperPosition(page)
+      });
+      wrap.setAttribute('page', String(page));
+      this.element.appendChild(wrap);
+      wrap.prepend(pageObj);
+      state.pageWrap.set(page, wrap);
+    }
+
+    if (!page || this.setPageLoc(page) === 1) this.makeFlip(page);
+  }
+
+  private makeFlip(page: number): Flip | undefined {
+    const { state } = this;
+    const pageObj = state.pageObjs.get(page);
+
+    if (pageObj && !state.pages.has(page) && state.pagePlace.get(page) === page) {
+      const { opts } = state;
+      setStyle(pageObj, { ...this.pageSize() });
+
+      const flip = new Flip(pageObj, this, {
+        page,
+        ...this.flipOptions(page),
+        cornerSize: opts.cornerSize,
+        duration: opts.duration,
+        acceleration: opts.acceleration && supports3d(),
+        frontGradient: opts.gradients,
+        backGradient: opts.gradients,
+        zIndex: null
+      });
+      flip.disable(this.cornersLocked());
+      state.pages.set(page, flip);
+    }
+
+    return state.pages.get(page);
+  }
+
+  private makeRange(): void {
+    if (!this.state.totalPages) return;
+    const [from, to] = this.range();
+    this.pageLoader?.request(from, to);
+    for (let page = from; page <= to; page++) this.addPageToDOM(page);
+  }
+
+  private necessPage(page: number): boolean {
+    const { state } = this;
+    if (page === 0) return true;
+    if (!state.totalPages || !(state.tpage || state.page)) return false;
+
+    const [from, to] = this.range();
+    return page >= from && page <= to;
+  }
+
+  private removeFromDOM(): void {
+    Array.from(this.state.pageWrap.keys()).forEach(page => {
+      if (!this.necessPage(page)) this.removePageFromDOM(page);
+    });
+    this.pageLoader?.unload();
+  }
+
+  private removePageFromDOM(page: number): void {
+    const { state } = this;
+    const flip = state.pages.get(page);
+
+    if (flip) {
+      flip.remove();
+      state.pages.delete(page);
+    }
+
+    state.pageObjs.get(page)?.remove();
+    state.pageWrap.get(page)?.remove();
+    state.pageWrap.delete(page);
+    state.pagePlace.delete(page);
+  }
+
+  /** Renumbers pages from `from` onward by `change`, or re-lays them out when it is 0 */
+  private movePages(from: number, change: number): void {
+    const { state } = this;
+    if (change) this.bookmarks.move(from, change);
+
+    const order = Array.from(state.pageObjs.keys())
+      .filter(page => page >= from)
+      .sort((a, b) => (change > 0 ? b - a : a - b));
+
+    order.forEach(page => {
+      const next = page + change;
+      const pageObj = state.pageObjs.get(page);
+      const wrap = state.pageWrap.get(page);
+      const flip = state.pages.get(page);
+      const placed = state.pagePlace.get(page);
+
+      if (change) {
+        state.pageObjs.delete(page);
+        state.pageWrap.delete(page);
+        state.pages.delete(page);
+        state.pagePlace.delete(page);
+      }
+
+      if (pageObj) {
+        pageObj.classList.remove(`p${page}`);
+        pageObj.classList.add(`p${next}`);
+        state.pageObjs.set(next, pageObj);
+      }
+
+      if (placed && wrap) {
+        state.pagePlace.set(next, next);
+        setStyle(wrap, this.wrapperPosition(next));
+        wrap.setAttribute('page', String(next));
+        state.pageWrap.set(next, wrap);
+
+        if (flip) {
+          flip.setOptions({ page: next, ...this.flipOptions(next) });
+          state.pages.set(next, flip);
+        }
+      } else if (change) {
+        state.pagePlace.set(next, 0);
+      }
+    });
+  }
+
+  private addMv(page: number): void {
+    this.removeMv(page);
+    this.state.pageMv.push(page);
+  }
+
+  private removeMv(page: number): boolean {
+    const index = this.state.pageMv.indexOf(page);
+    if (index === -1) return false;
+    this.state.pageMv.splice(index, 1);
+    return true;
+  }
+
+  /** Shows `page` without animating and fires `turned` */
+  private fitPage(page: number): void {
+    const { state } = this;
+    const view = this.view(page);
+
+    this.pageLoader?.request(...this.range(page));
+
+    if (state.pageObjs.has(page)) {
+      state.tpage = page;
+      this.settle();
+      this.removeFromDOM();
+      this.makeRange();
+      this.emit('turned', { page, view });
+    }
+  }
+
+  /** Turns to `page` by folding the page nearest to it */
+  private turnPage(page: number): void {
+    const { state } = this;
+    const current = this.view();
+    const next = this.view(page);
+
+    this.pageLoader?.request(...this.range(page));
+    if (!state.pageObjs.has(page)) return;
+
+    state.tpage = page;
+    this.settle();
+    this.makeRange();
+
+    if (this.transitions.mode !== 'curl') {
+      this.transitionPage(page, current, next);
+      return;
+    }
+
+    let from: number | undefined;
+    let to: number | undefined;
+
+    if (state.display === 'single') {
+      from = current[0];
+      to = next[0];
+    } else if (current[1] && page > current[1]) {
+      from = current[1];
+      to = next[0];
+    } else if (current[0] && page < current[0]) {
+      from = current[0];
+      to = next[1];
+    }
+
+    const flip = from === undefined ? undefined : state.pages.get(from);
+    if (!flip || to === undefined) {
+      this.fitPage(page);
+      return;
+    }
+
+    const opts = flip.state.opts;
+    state.tpage = page;
+
+    if (opts.next !== to) {
+      opts.next = to;
+      state.pagePlace.set(to, opts.page);
+      opts.force = true;
+    }
+
+    if (state.display === 'single') {
+      const forward = next[0] > current[0];
+      flip.turnPage(forward === (state.direction === 'ltr') ? 'br' : 'bl');
+    } else {
+      flip.turnPage();
+    }
+  }
+
+  /**
+   * Turns to `page` with the slide, fade or swap transition, firing `turn` and `start`
+   * the way a curl does; a prevented `start` shows the page at once
+   */
+  private transitionPage(page: number, current: readonly number[], next: readonly number[]): void {
+    const { state } = this;
+    const forward = next[0] > current[0];
+    const corner = this.corners[forward ? 'forward' : 'backward'][0];
+    const actualCorner = state.orientation === 'vertical' ? transposeCorner(corner) : corner;
+    const turning = (forward ? current[current.length - 1] : current[0]) || current[1];
+
+    this.emit('turn', page);
+    if (!this.emit('start', { page: turning, corner: actualCorner })) {
+      this.fitPage(page);
+      return;
+    }
+
+    state.tpage = page;
+    this.transitions.run(current, next, forward, () => {
+      if (state.tpage === page) this.fitPage(page);
+    });
+  }
+
+  /**
+   * Asks `beforeTurn` and then the `turning` handlers whether the book may turn to
+   * `page`. Calls `proceed` once both allow it, which is later when the guard returns a
+   * Promise, and `deny` otherwise; a denied turn also cancels the pending navigations.
+   * The first page shown while the book is built is announced but cannot be vetoed.
+   */
+  private guard(page: number, proceed: () => void, deny?: () => void): void {
+    const { state } = this;
+    const id = ++this.guardId;
+    const source = this.turnSource;
+    const verdict = state.done
+      ? this.plugins.beforeTurn(state.page, page, state.opts.beforeTurn?.(state.page, page))
+      : undefined;
+
+    const decide = (allowed: boolean): void => {
+      if (id !== this.guardId || state.destroyed) return;
+      this.guarding = false;
+
+      this.withSource(source, () => {
+        if (allowed && (this.announce(page) || !state.done)) {
+          proceed();
+        } else {
+          this.navigation.cancel();
+          deny?.();
+        }
+      });
+    };
+
+    if (verdict instanceof Promise) {
+      this.guarding = true;
+      verdict.then(
+        allowed => decide(allowed !== false),
+        () => decide(false)
+      );
+    } else {
+      decide(verdict !== false);
+    }
+  }
+
+  /** Fires `turning`, and `first` or `last`, for a turn to `page`; false if it was prevented */
+  private announce(page: number, cancelable = true): boolean {
+    const view = this.view(page);
+    if (!this.emit('turning', { page, view }, cancelable)) return false;
+    if (view.includes(1)) this.emit('first', undefined);
+    if (view.includes(this.state.totalPages)) this.emit('last', undefined);
+    return true;
+  }
+
+  /** Places a page wrapper: 1 when shown, 2 when just beneath the view, 0 when hidden */
+  private setPageLoc(page: number): number {
+    const { state } = this;
+    const wrap = state.pageWrap.get(page);
+    const view = this.view();
+    if (!wrap) return 0;
+
+    if (page === view[0] || page === view[1]) {
+      setStyle(wrap, { zIndex: state.totalPages, display: '' });
+      return 1;
+    }
+
+    if (
+      (state.display === 'single' && page === view[0] + 1) ||
+      (state.display === 'double' && page === view[0] - 2) ||
+      page === view[1] + 2
+    ) {
+      setStyle(wrap, { zIndex: state.totalPages - 1, display: '' });
+      return 2;
+    }
+
+    setStyle(wrap, { zIndex: 0, display: 'none' });
+    return 0;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Keyboard navigation, ARIA semantics and turn announcements for a book
+ */
+
+import type { AccessibilityOptions } from '../types.js';
+import { createDiv } from '../utils/dom.js';
+import type { Turn } from '../engine/turn.js';
+
+const defaultPageLabel = (page: number, total: number): string => `Page ${page} of ${total}`;
+
+const defaultAnnouncement = (view: readonly number[], total: number): string => {
+  const pages = view.filter(Boolean);
+  return pages.length > 1
+    ? `Pages ${pages[0]}–${pages[pages.length - 1]} of ${total}`
+    : `Page ${pages[0] ?? 0} of ${total}`;
+};
+
+/** Visually hidden but still read by assistive technology */
+const visuallyHidden = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0
+};
+
+const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || /^(input|textarea|select)$/i.test(target.tagName));
+
+export class Accessibility {
+  readonly turn: Turn;
+  readonly options: Required<AccessibilityOptions>;
+  readonly liveRegion: HTMLElement;
+
+  /** Attribute values as they were before this module changed them */
+  private readonly originals = new Map<Element, Map<string, string | null>>();
+
+  constructor(turn: Turn, options: AccessibilityOptions = {}) {
+    this.turn = turn;
+    this.options = {
+      label: options.label ?? 'Book',
+      keyboard: options.keyboard ?? true,
+      focus: options.focus ?? true,
+      pageLabel: options.pageLabel ?? defaultPageLabel,
+      announcement: options.announcement ?? defaultAnnouncement
+    };
+
+    const { element } = turn;
+    this.setAttribute(element, 'role', 'region');
+    this.setAttribute(element, 'aria-roledescription', 'book');
+    if (!element.hasAttribute('aria-label') && !element.hasAttribute('aria-labelledby')) {
+      this.setAttribute(element, 'aria-label', this.options.label);
+    }
+    if (this.options.keyboard && !element.hasAttribute('tabindex')) {
+      this.setAttribute(element, 'tabindex', '0');
+    }
+
+    this.liveRegion = createDiv('turn-live-region', visuallyHidden);
+    this.liveRegion.setAttribute('aria-live', 'polite');
+    this.liveRegion.setAttribute('aria-atomic', 'true');
+    element.appendChild(this.liveRegion);
+
+    element.addEventListener('turned', this.handleTurned);
+    if (this.options.keyboard) element.addEventListener('keydown', this.handleKeydown);
+
+    this.refresh();
+  }
+
+  /** Labels every page and hides the ones outside the current view */
+  refresh(): void {
+    const { state } = this.turn;
+    const view = this.turn.view();
+
+    state.pageObjs.forEach((page, n) => {
+      if (n === 0) return;
+
+      this.setAttribute(page, 'role', 'group');
+      this.setAttribute(page, 'aria-roledescription', 'page');
+      this.setAttribute(page, 'aria-label', this.options.pageLabel(n, state.totalPages));
+      this.setAttribute(page, 'tabindex', '-1');
+
+      const hidden = !view.includes(n);
+      this.setAttribute(page, 'aria-hidden', hidden ? 'true' : null);
+      this.setAttribute(page, 'inert', hidden ? '' : null);
+    });
+  }
+
+  announce(view: readonly number[]): void {
+    this.liveRegion.textContent = this.options.announcement(view, this.turn.state.totalPages);
+  }
+
+  destroy(): void {
+    const { element } = this.turn;
+    element.removeEventListener('turned', this.handleTurned);
+    element.removeEventListener('keydown', this.handleKeydown);
+    this.liveRegion.remove();
+
+    this.originals.forEach((attributes, target) => {
+      attributes.forEach((value, name) => {
+        if (value === null) target.removeAttribute(name);
+        else target.setAttribute(name, value);
+      });
+    });
+    this.originals.clear();
+  }
+
+  private setAttribute(target: Element, name: string, value: string | null): void {
+    let attributes = this.originals.get(target);
+    if (!attributes) {
+      attributes = new Map();
+      this.originals.set(target, attributes);
+    }
+    if (!attributes.has(name)) attributes.set(name, target.getAttribute(name));
+
+    if (value === null) target.removeAttribute(name);
+    else target.setAttribute(name, value);
+  }
+
+  private readonly handleTurned = (event: Event): void => {
+    const { view } = (event as CustomEvent<{ view: readonly number[] }>).detail;
+    const { element, state } = this.turn;
+    const hadFocus = element.contains(document.activeElement);
+
+    this.refresh();
+    this.announce(view);
+
+    if (this.options.focus && hadFocus) {
+      const first = view.find(page => page > 0);
+      const page = first === undefined ? undefined : state.pageObjs.get(first);
+      page?.focus({ preventScroll: true });
+    }
+  };
+
+  private readonly handleKeydown = (event: KeyboardEvent): void => {
+    if (event.altKey || event.ctrlKey || event.metaKey || isEditable(event.target)) return;
+
+    const { turn } = this;
+    const rtl = turn.state.direction === 'rtl';
+    let turnTo: () => unknown;
+    switch (event.key) {
+      case rtl ? 'ArrowLeft' : 'ArrowRight':
+      case 'ArrowDown':
+      case 'PageDown':
+        turnTo = () => turn.next();
+        break;
+      case rtl ? 'ArrowRight' : 'ArrowLeft':
+      case 'ArrowUp':
+      case 'PageUp':
+        turnTo = () => turn.previous();
+        break;
+      case 'Home':
+        turnTo = () => turn.page(1);
+        break;
+      case 'End':
+        turnTo = () => turn.page(turn.state.totalPages);
+        break;
+      default:
+        return;
+    }
+
+    turn.withSource('keyboard', turnTo);
+    event.preventDefault();
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Lifts a corner once the reader has left the book alone for a while, hinting that
+ * its pages can be turned, and lets it fall back on the next sign of activity
+ */
+
+import type { AutoPeelOptions, Corner } from '../types.js';
+import type { Turn } from '../engine/turn.js';
+
+/** Events on the book that count as the reader doing something */
+const activityEvents = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'turning'] as const;
+
+export class AutoPeel {
+  readonly turn: Turn;
+  readonly delay: number;
+  readonly corner?: Corner;
+  readonly amount?: number;
+
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private peeled = false;
+
+  constructor(turn: Turn, options: AutoPeelOptions = {}) {
+    this.turn = turn;
+    this.delay = options.delay ?? 5000;
+    this.corner = options.corner;
+    this.amount = options.amount;
+
+    activityEvents.forEach(type => turn.element.addEventListener(type, this.handleActivity));
+    this.schedule();
+  }
+
+  destroy(): void {
+    clearTimeout(this.timer);
+    activityEvents.forEach(type =>
+      this.turn.element.removeEventListener(type, this.handleActivity)
+    );
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.peeled = true;
+      this.turn.peel(this.corner, this.amount);
+    }, this.delay);
+  }
+
+  private readonly handleActivity = (): void => {
+    if (this.peeled) {
+      this.peeled = false;
+      this.turn.unpeel();
+    }
+    this.schedule();
+  };
+}
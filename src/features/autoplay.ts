@@ -0,0 +1,95 @@
+/**
+ * Slideshow: turns to the next spread on a timer, optionally holding off while a
+ * mouse is over the book
+ */
+
+import type { AutoplayController, AutoplayOptions } from '../types.js';
+import type { Turn } from '../engine/turn.js';
+
+const defaultAutoplay: Required<AutoplayOptions> = {
+  interval: 3000,
+  loop: false,
+  pauseOnHover: true
+};
+
+export class Autoplay implements AutoplayController {
+  readonly turn: Turn;
+  readonly options: Required<AutoplayOptions>;
+
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private paused = false;
+  private hovered = false;
+  private stopped = false;
+
+  constructor(turn: Turn, options: AutoplayOptions = {}) {
+    this.turn = turn;
+    this.options = { ...defaultAutoplay, ...options };
+
+    const { element } = turn;
+    element.addEventListener('turned', this.handleTurned);
+    if (this.options.pauseOnHover) {
+      element.addEventListener('pointerenter', this.handlePointerEnter);
+      element.addEventListener('pointerleave', this.handlePointerLeave);
+    }
+    this.schedule();
+  }
+
+  get playing(): boolean {
+    return !this.stopped && !this.paused && !this.hovered;
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.schedule();
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.schedule();
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+
+    const { element } = this.turn;
+    this.stopped = true;
+    this.schedule();
+    element.removeEventListener('turned', this.handleTurned);
+    element.removeEventListener('pointerenter', this.handlePointerEnter);
+    element.removeEventListener('pointerleave', this.handlePointerLeave);
+  }
+
+  /** Restarts the wait for the next turn, or clears it while not playing */
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = this.playing ? setTimeout(this.advance, this.options.interval) : undefined;
+  }
+
+  /** Turns to the next spread, or back to the first at the end when looping */
+  private readonly advance = (): void => {
+    const { turn } = this;
+    const atEnd = turn.view().includes(turn.state.totalPages);
+
+    if (atEnd && !this.options.loop) {
+      this.stop();
+      return;
+    }
+
+    // A turn that is refused or interrupted fires no `turned`, so wait for the next one here
+    (atEnd ? turn.goTo(1) : turn.goNext()).catch(() => this.schedule());
+  };
+
+  private readonly handleTurned = (): void => this.schedule();
+
+  private readonly handlePointerEnter = (event: PointerEvent): void => {
+    if (event.pointerType === 'touch') return;
+    this.hovered = true;
+    this.schedule();
+  };
+
+  private readonly handlePointerLeave = (event: PointerEvent): void => {
+    if (event.pointerType === 'touch') return;
+    this.hovered = false;
+    this.schedule();
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Bookmarks kept by page number and moved along as pages are added or removed
+ */
+
+import type { Bookmark } from '../types.js';
+import type { Turn } from '../engine/turn.js';
+
+export class Bookmarks {
+  readonly turn: Turn;
+
+  /** Label given to each bookmarked page, if any */
+  private readonly marks = new Map<number, string | undefined>();
+
+  constructor(turn: Turn) {
+    this.turn = turn;
+  }
+
+  list(): Bookmark[] {
+    return Array.from(this.marks.keys())
+      .sort((a, b) => a - b)
+      .map(page => this.bookmark(page));
+  }
+
+  add(page: number, label?: string): void {
+    if (!(page >= 1 && page <= this.turn.state.totalPages)) {
+      throw new RangeError(`"${page}" is not a page of this book`);
+    }
+    this.marks.set(page, label);
+    this.turn.emit('bookmarkadd', this.bookmark(page));
+  }
+
+  remove(page: number): void {
+    if (!this.marks.has(page)) return;
+    const bookmark = this.bookmark(page);
+    this.marks.delete(page);
+    this.turn.emit('bookmarkremove', bookmark);
+  }
+
+  /** @internal Renumbers the bookmarks from `from` onward by `change` */
+  move(from: number, change: number): void {
+    const moved = Array.from(this.marks.entries()).filter(([page]) => page >= from);
+    moved.forEach(([page]) => this.marks.delete(page));
+    moved.forEach(([page, label]) => this.marks.set(page + change, label));
+  }
+
+  private bookmark(page: number): Bookmark {
+    const label = this.marks.get(page) ?? this.turn.pageLabel(page);
+    return label === undefined ? { page } : { page, label };
+  }
+}
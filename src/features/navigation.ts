@@ -0,0 +1,114 @@
+/**
+ * Promise-based navigation: queues page turns and settles each one once its
+ * page is in view, or rejects it when something else takes over the book
+ */
+
+import type { Turn } from '../engine/turn.js';
+
+/** Rejects a navigation that was stopped or overtaken before its page came into view */
+export class TurnCancelledError extends Error {
+  override readonly name = 'TurnCancelledError';
+
+  constructor() {
+    super('The page turn was cancelled');
+  }
+}
+
+interface NavigationRequest {
+  /**
+   * Page to turn to, worked out when the request starts; null when there is nothing to
+   * do. Throwing rejects the request with the error.
+   */
+  readonly target: () => number | null;
+  readonly animate: boolean;
+  readonly resolve: () => void;
+  readonly reject: (error: Error) => void;
+}
+
+export class Navigation {
+  readonly turn: Turn;
+
+  private readonly queue: NavigationRequest[] = [];
+  private current: { readonly request: NavigationRequest; readonly page: number } | null = null;
+  private busy = false;
+
+  constructor(turn: Turn) {
+    this.turn = turn;
+    turn.element.addEventListener('turned', this.handleTurned);
+  }
+
+  /** Whether the book is being moved by this queue rather than by someone else */
+  get driving(): boolean {
+    return this.busy;
+  }
+
+  /**
+   * Queues a turn to the page `target` returns, started once every earlier request
+   * and any turn already under way have settled
+   */
+  go(target: () => number | null, animate = true): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ target, animate, resolve, reject });
+      if (!this.turn.turnPending()) this.advance();
+    });
+  }
+
+  /** Rejects the running request and every queued one */
+  cancel(): void {
+    const requests = this.queue.splice(0);
+    if (this.current) requests.unshift(this.current.request);
+    this.current = null;
+    requests.forEach(request => request.reject(new TurnCancelledError()));
+  }
+
+  destroy(): void {
+    this.turn.element.removeEventListener('turned', this.handleTurned);
+    this.cancel();
+  }
+
+  private advance(): void {
+    const { turn } = this;
+
+    while (!this.current && this.queue.length) {
+      const request = this.queue.shift()!;
+      let page: number | null;
+      try {
+        page = request.target();
+      } catch (error) {
+        request.reject(error as Error);
+        continue;
+      }
+
+      if (page === null) {
+        request.resolve();
+      } else if (!(page >= 1 && page <= turn.state.totalPages)) {
+        request.reject(new RangeError(`"${page}" is not a page of this book`));
+      } else {
+        this.current = { request, page };
+        this.busy = true;
+        try {
+          turn.page(page, { animate: request.animate });
+        } finally {
+          this.busy = false;
+        }
+
+        if (this.current?.request === request && !turn.turnPending()) {
+          this.current = null;
+          request.reject(new TurnCancelledError());
+        }
+      }
+    }
+  }
+
+  private readonly handleTurned = (event: Event): void => {
+    const { current } = this;
+    const { view } = (event as CustomEvent<{ view: readonly number[] }>).detail;
+
+    if (current) {
+      if (!view.includes(current.page)) return;
+      this.current = null;
+      current.request.resolve();
+    }
+    if (!this.busy) this.advance();
+  };
+}
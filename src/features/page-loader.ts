@@ -0,0 +1,105 @@
+/**
+ * On-demand pages: asks a provider for the pages inside the current range and
+ * drops them again once they leave it, so only a handful are ever kept around
+ */
+
+import type { PageProvider } from '../types.js';
+import { createDiv } from '../utils/dom.js';
+import type { Turn } from '../engine/turn.js';
+
+export class PageLoader {
+  readonly turn: Turn;
+  readonly provider: PageProvider;
+
+  /** Elements this loader put into the book, placeholders included */
+  private readonly provided = new WeakSet<HTMLElement>();
+  /** Loaded elements waiting for the current turn to finish */
+  private readonly deferred = new Map<HTMLElement, HTMLElement>();
+
+  constructor(turn: Turn, provider: PageProvider) {
+    this.turn = turn;
+    this.provider = provider;
+    turn.element.addEventListener('turned', this.handleTurned);
+  }
+
+  /** Requests every page between `from` and `to` that the book does not have yet */
+  request(from: number, to: number): void {
+    const { turn } = this;
+    const missing: number[] = [];
+
+    for (let page = Math.max(1, from); page <= Math.min(to, turn.state.totalPages); page++) {
+      if (!turn.hasPage(page)) missing.push(page);
+    }
+
+    if (!missing.length) return;
+    turn.emit('missing', { pages: missing });
+    missing.forEach(page => this.load(page));
+  }
+
+  /** Drops the provided pages outside the current range */
+  unload(): void {
+    const { state } = this.turn;
+    if (!state.totalPages || !(state.tpage || state.page)) return;
+
+    const [from, to] = this.turn.range();
+    Array.from(state.pageObjs.entries()).forEach(([page, element]) => {
+      if (page > 0 && (page < from || page > to) && this.provided.has(element)) {
+        this.deferred.delete(element);
+        this.turn.unloadPage(page);
+      }
+    });
+  }
+
+  /** Removes every provided page from the book */
+  destroy(): void {
+    const { turn } = this;
+    turn.element.removeEventListener('turned', this.handleTurned);
+    this.deferred.clear();
+
+    Array.from(turn.state.pageObjs.entries()).forEach(([page, element]) => {
+      if (this.provided.has(element)) turn.unloadPage(page);
+    });
+  }
+
+  private load(page: number): void {
+    const result = this.provider(page);
+
+    if (result instanceof HTMLElement) {
+      this.provided.add(result);
+      this.turn.loadPage(page, result);
+      return;
+    }
+
+    const placeholder = createDiv('turn-page-placeholder');
+    this.provided.add(placeholder);
+    this.turn.loadPage(page, placeholder);
+
+    result.then(
+      element => {
+        this.provided.add(element);
+        if (this.turn.animating()) {
+          this.deferred.set(placeholder, element);
+        } else {
+          this.replace(placeholder, element);
+        }
+      },
+      () => placeholder.classList.add('turn-page-error')
+    );
+  }
+
+  /** Swaps a placeholder for its loaded page if the placeholder is still in the book */
+  private replace(placeholder: HTMLElement, element: HTMLElement): void {
+    const { turn } = this;
+    const entry = Array.from(turn.state.pageObjs.entries()).find(([, el]) => el === placeholder);
+    if (!entry || turn.state.destroyed) return;
+
+    turn.loadPage(entry[0], element);
+    turn.update();
+  }
+
+  private readonly handleTurned = (): void => {
+    const deferred = Array.from(this.deferred.entries());
+    this.deferred.clear();
+    deferred.forEach(([placeholder, element]) => this.replace(placeholder, element));
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Saves the reading position, zoom level and bookmarks of a book under its id and
+ * brings them back when the book is created again
+ */
+
+import type { Bookmark, PersistenceOptions, ProgressStorage } from '../types.js';
+import type { Turn } from '../engine/turn.js';
+
+/** Bumped when the saved shape changes; anything saved under another version is ignored */
+const version = 1;
+
+/** Events after which the progress is saved again */
+const saveEvents = ['turned', 'bookmarkadd', 'bookmarkremove', 'pageschange'] as const;
+
+interface SavedProgress {
+  readonly page?: number;
+  readonly zoom?: number;
+  readonly bookmarks: readonly Bookmark[];
+}
+
+const isPage = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+/** What is left of `value` once everything that does not look right is dropped */
+const parseProgress = (value: unknown): SavedProgress | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const data = value as Record<string, unknown>;
+  if (data.version !== version) return null;
+
+  const zoom = data.zoom;
+  const bookmarks = Array.isArray(data.bookmarks) ? (data.bookmarks as unknown[]) : [];
+  return {
+    page: isPage(data.page) ? data.page : undefined,
+    zoom: typeof zoom === 'number' && Number.isFinite(zoom) && zoom >= 1 ? zoom : undefined,
+    bookmarks: bookmarks.flatMap(mark => {
+      const { page, label } = (mark ?? {}) as Record<string, unknown>;
+      if (!isPage(page)) return [];
+      return [typeof label === 'string' ? { page, label } : { page }];
+    })
+  };
+};
+
+/** Keeps progress in `localStorage` where there is one */
+const defaultStorage = (): ProgressStorage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Reading `localStorage` throws where storage is blocked
+    return null;
+  }
+};
+
+export class Persistence {
+  readonly turn: Turn;
+  readonly key: string;
+
+  private readonly storage: ProgressStorage | null;
+  private readonly saved: SavedProgress | null;
+  private restored = false;
+
+  constructor(turn: Turn, options: PersistenceOptions) {
+    this.turn = turn;
+    this.key = `pageturn:${options.id}`;
+    this.storage = options.storage ?? defaultStorage();
+    this.saved = this.load();
+  }
+
+  /** The saved page, if it is still a page of the book */
+  get page(): number | undefined {
+    const page = this.saved?.page;
+    return page !== undefined && page <= this.turn.state.totalPages ? page : undefined;
+  }
+
+  /** Puts back the saved bookmarks and zoom level, then saves on every change */
+  restore(): void {
+    const { turn, saved } = this;
+    if (this.restored) return;
+
+    saved?.bookmarks
+      .filter(({ page }) => page <= turn.state.totalPages)
+      .forEach(({ page, label }) => turn.bookmarks.add(page, label));
+    if (saved?.zoom !== undefined) turn.zooming.set(saved.zoom);
+
+    this.restored = true;
+    saveEvents.forEach(type => turn.element.addEventListener(type, this.handleChange));
+  }
+
+  save(): void {
+    const { turn } = this;
+    if (!this.restored || turn.state.destroyed) return;
+
+    this.attempt(() =>
+      this.storage?.setItem(
+        this.key,
+        JSON.stringify({
+          version,
+          page: turn.state.page,
+          zoom: turn.zooming.level,
+          bookmarks: turn.bookmarks.list()
+        })
+      )
+    );
+  }
+
+  /** Forgets the saved progress; it is saved again on the next change */
+  clear(): void {
+    this.attempt(() => this.storage?.removeItem(this.key));
+  }
+
+  destroy(): void {
+    saveEvents.forEach(type => this.turn.element.removeEventListener(type, this.handleChange));
+  }
+
+  private load(): SavedProgress | null {
+    const text = this.attempt(() => this.storage?.getItem(this.key));
+    if (text === null || text === undefined) return null;
+
+    try {
+      return parseProgress(JSON.parse(text));
+    } catch {
+      return null;
+    }
+  }
+
+  /** Runs a storage call, ignoring the storage being full or blocked */
+  private attempt<T>(action: () => T): T | undefined {
+    try {
+      return action();
+    } catch {
+      // Progress is a convenience; a book that cannot save it still works
+    }
+  }
+
+  private readonly handleChange = (): void => this.save();
+}
+
+/** Storage that lives as long as the page, for tests or where nothing should be kept */
+export const createMemoryStorage = (): ProgressStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key)
+  };
+};
@@ -0,0 +1,112 @@
+/**
+ * Plugins given to `createTurn`: the methods they add to the instance and the hooks
+ * they run through the life of the book
+ */
+
+import type { TurnGuard, TurnInstance, TurnPlugin, TurnPluginContext } from '../types.js';
+import type { Turn } from '../engine/turn.js';
+
+type Verdict = ReturnType<TurnGuard>;
+
+/** Hooks that only observe, called in plugin order */
+type NotifyHook = 'optionsChange' | 'afterTurn' | 'pageAdded' | 'pageRemoved' | 'destroy';
+
+type HookArguments<THook extends NotifyHook> =
+  NonNullable<TurnPlugin[THook]> extends (context: TurnPluginContext, ...args: infer A) => void
+    ? A
+    : never;
+
+/** Folds several guard answers into one: false if any is, waiting for those still pending */
+const combineVerdicts = (verdicts: readonly Verdict[]): Verdict => {
+  if (verdicts.some(verdict => verdict === false)) return false;
+  const pending = verdicts.filter(verdict => verdict instanceof Promise);
+  if (!pending.length) return undefined;
+  return Promise.all(pending).then(answers => !answers.includes(false));
+};
+
+export class Plugins {
+  readonly turn: Turn;
+  readonly plugins: readonly TurnPlugin[];
+
+  /** Set by the first instance wrapped around the book, which runs the `init` hooks */
+  private context: TurnPluginContext | null = null;
+
+  constructor(turn: Turn, plugins: readonly TurnPlugin[] = []) {
+    const names = new Set<string>();
+    plugins.forEach(({ name }) => {
+      if (names.has(name)) throw new Error(`The plugin "${name}" is given more than once`);
+      names.add(name);
+    });
+
+    this.turn = turn;
+    this.plugins = plugins;
+    turn.element.addEventListener('turned', this.handleTurned);
+  }
+
+  /**
+   * Adds the plugin methods to `instance`, each going through `live` first, and runs the
+   * `init` hooks the first time
+   */
+  install(instance: TurnInstance, live: () => Turn): void {
+    const context = this.createContext(instance);
+    const methods = instance as unknown as Record<string, unknown>;
+
+    this.plugins.forEach(plugin => {
+      Object.entries(plugin.methods?.(context) ?? {}).forEach(([name, method]) => {
+        if (name in methods) {
+          throw new Error(`The plugin "${plugin.name}" cannot replace the method "${name}"`);
+        }
+        methods[name] = (...args: unknown[]): unknown => {
+          live();
+          return (method as (...args: unknown[]) => unknown)(...args);
+        };
+      });
+    });
+
+    if (this.context) return;
+    this.context = context;
+    this.plugins.forEach(plugin => plugin.init?.(context));
+  }
+
+  /** The answers of the plugin `beforeTurn` hooks, folded with `verdict` */
+  beforeTurn(from: number, to: number, verdict: Verdict): Verdict {
+    const { context } = this;
+    if (!context) return verdict;
+    return combineVerdicts([
+      verdict,
+      ...this.plugins.map(plugin => plugin.beforeTurn?.(context, from, to))
+    ]);
+  }
+
+  notify<THook extends NotifyHook>(hook: THook, ...args: HookArguments<THook>): void {
+    const { context } = this;
+    if (!context) return;
+    this.plugins.forEach(plugin => {
+      const run = plugin[hook] as
+        | ((context: TurnPluginContext, ...args: unknown[]) => void)
+        | undefined;
+      run?.call(plugin, context, ...args);
+    });
+  }
+
+  destroy(): void {
+    this.notify('destroy');
+    this.turn.element.removeEventListener('turned', this.handleTurned);
+    this.context = null;
+  }
+
+  private createContext(instance: TurnInstance): TurnPluginContext {
+    const { turn } = this;
+    return {
+      instance,
+      element: turn.element,
+      options: turn.state.opts,
+      emit: (event, detail) => void turn.emit(event, detail)
+    };
+  }
+
+  private readonly handleTurned = (event: Event): void => {
+    const { page, view } = (event as CustomEvent<{ page: number; view: readonly number[] }>).detail;
+    this.notify('afterTurn', page, view);
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Sizes a book to its container and picks the display mode from the container width
+ */
+
+import type { DisplayMode, ResponsiveOptions } from '../types.js';
+import type { Turn } from '../engine/turn.js';
+
+const defaultBreakpoints: Record<DisplayMode, number> = { single: 0, double: 768 };
+
+export class Responsive {
+  readonly turn: Turn;
+  readonly container: HTMLElement | null;
+  readonly breakpoints: Record<DisplayMode, number>;
+  readonly aspectRatio: number;
+
+  private readonly observer?: ResizeObserver;
+
+  constructor(turn: Turn, options: ResponsiveOptions = {}) {
+    const { width, height } = turn.pageSize();
+
+    this.turn = turn;
+    this.container = options.container ?? turn.element.parentElement;
+    this.breakpoints = { ...defaultBreakpoints, ...options.breakpoints };
+    this.aspectRatio = options.aspectRatio ?? (width && height ? width / height : 1);
+
+    if (!this.container) return;
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.observer = new ResizeObserver(entries => {
+        const entry = entries[entries.length - 1];
+        if (entry) this.fit(entry.contentRect.width);
+      });
+      this.observer.observe(this.container);
+    }
+
+    this.fit(this.container.clientWidth);
+  }
+
+  /** Display mode for a container `width`: the one with the largest breakpoint it reaches */
+  displayFor(width: number): DisplayMode {
+    const [mode] = (Object.entries(this.breakpoints) as [DisplayMode, number][])
+      .filter(([, breakpoint]) => width >= breakpoint)
+      .sort(([, a], [, b]) => b - a)
+      .map(([display]) => display);
+    return mode ?? this.turn.display();
+  }
+
+  /** Resizes the book to `width`, switching display mode and keeping the page ratio */
+  fit(width: number): void {
+    const { turn } = this;
+    if (!(width > 0) || turn.state.destroyed) return;
+
+    const display = this.displayFor(width);
+    const vertical = turn.state.orientation === 'vertical';
+    const across = display === 'double' && !vertical ? 2 : 1;
+    const down = display === 'double' && vertical ? 2 : 1;
+    const bookWidth = Math.floor(width);
+    const height = Math.round((bookWidth / across / this.aspectRatio) * down);
+
+    if (display !== turn.display()) turn.display(display);
+
+    const size = turn.size();
+    if (size.width !== bookWidth || size.height !== height) turn.size(bookWidth, height);
+  }
+
+  destroy(): void {
+    this.observer?.disconnect();
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Keeps the current page in the URL, as a hash or a query parameter, so that pages
+ * can be linked to and the browser history walks through the turns
+ */
+
+import type { RoutingOptions } from '../types.js';
+import type { Turn } from '../engine/turn.js';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class Routing {
+  readonly turn: Turn;
+  readonly options: Required<RoutingOptions>;
+
+  private readonly matcher: RegExp;
+  /** Page a popstate is turning to; the URL already points there until the turn fails */
+  private target: number | null = null;
+
+  constructor(turn: Turn, options: RoutingOptions = {}) {
+    const mode = options.mode ?? 'hash';
+    this.turn = turn;
+    this.options = {
+      mode,
+      pattern: options.pattern ?? (mode === 'hash' ? 'page/{page}' : '{page}'),
+      param: options.param ?? 'page',
+      history: options.history ?? 'push'
+    };
+
+    const [before, after = ''] = this.options.pattern.split('{page}');
+    this.matcher = new RegExp(`^${escapeRegExp(before ?? '')}(\\d+)${escapeRegExp(after)}$`);
+
+    turn.element.addEventListener('turned', this.handleTurned);
+    window.addEventListener('popstate', this.handlePopState);
+  }
+
+  /** The page the URL points to, or null if it names none or one the book does not have */
+  read(): number | null {
+    const { mode, param } = this.options;
+    const value =
+      mode === 'hash'
+        ? decodeURIComponent(location.hash.slice(1))
+        : new URLSearchParams(location.search).get(param);
+    const match = value === null ? null : this.matcher.exec(value);
+    const page = match ? Number(match[1]) : 0;
+    return page >= 1 && page <= this.turn.state.totalPages ? page : null;
+  }
+
+  /** The current URL with its page part pointing to `page` */
+  href(page: number): string {
+    const { mode, param, pattern } = this.options;
+    const value = pattern.replace('{page}', String(page));
+    const url = new URL(location.href);
+
+    if (mode === 'hash') url.hash = value;
+    else url.searchParams.set(param, value);
+
+    return url.href;
+  }
+
+  destroy(): void {
+    this.turn.element.removeEventListener('turned', this.handleTurned);
+    window.removeEventListener('popstate', this.handlePopState);
+  }
+
+  private readonly handleTurned = (event: Event): void => {
+    const { page, view } = (event as CustomEvent<{ page: number; view: readonly number[] }>).detail;
+
+    if (this.target !== null) {
+      if (view.includes(this.target)) this.target = null;
+      return;
+    }
+
+    const current = this.read();
+    if (!this.turn.state.done || (current !== null && view.includes(current))) return;
+
+    if (this.options.history === 'push') history.pushState(history.state, '', this.href(page));
+    else history.replaceState(history.state, '', this.href(page));
+  };
+
+  private readonly handlePopState = (): void => {
+    const { turn } = this;
+    const page = this.read() ?? turn.state.opts.page;
+    if (turn.view().includes(page) || page < 1 || page > turn.state.totalPages) return;
+
+    this.target = page;
+    turn.goTo(page).catch(() => this.handleRefused(page));
+  };
+
+  /** Points the URL back at the page shown once the turn to `page` was refused or cancelled */
+  private handleRefused(page: number): void {
+    const { turn } = this;
+    if (this.target !== page) return;
+
+    this.target = null;
+    if (turn.state.destroyed || turn.view().includes(page)) return;
+    history.replaceState(history.state, '', this.href(turn.state.page));
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Colors of the fold shading, the shadow along the spine and the page edges beside the
+ * book, written as CSS custom properties with the theme option as their fallback. Books
+ * without a theme keep the plain `rgba()` shading every browser draws.
+ */
+
+import type { TurnTheme } from '../types.js';
+import { createDiv, setStyle, type StyleMap } from '../utils/dom.js';
+import type { GradientStop } from '../utils/geometry.js';
+import type { Turn } from '../engine/turn.js';
+
+/** The CSS custom property behind each setting */
+export const themeProperties: Readonly<Record<keyof TurnTheme, string>> = {
+  shadowColor: '--pageturn-shadow-color',
+  shadowIntensity: '--pageturn-shadow-intensity',
+  highlightColor: '--pageturn-highlight-color',
+  foldShadow: '--pageturn-fold-shadow',
+  foldHighlight: '--pageturn-fold-highlight',
+  spineShadow: '--pageturn-spine-shadow',
+  edgeThickness: '--pageturn-edge-thickness'
+};
+
+const defaultTheme: Required<TurnTheme> = {
+  shadowColor: '#000',
+  shadowIntensity: 1,
+  highlightColor: '#fff',
+  foldShadow: 0.2,
+  foldHighlight: 0.2,
+  spineShadow: 0,
+  edgeThickness: 0
+};
+
+const numericSettings = [
+  'shadowIntensity',
+  'foldShadow',
+  'foldHighlight',
+  'spineShadow',
+  'edgeThickness'
+] as const;
+
+const opposite = { left: 'right', right: 'left', top: 'bottom', bottom: 'top' } as const;
+
+/** Replaces every style of a layer drawn over the book with `styles` */
+const place = (element: HTMLElement, styles: StyleMap): void => {
+  element.removeAttribute('style');
+  setStyle(element, { position: 'absolute', pointerEvents: 'none', ...styles });
+};
+
+/** Share of the spine shadow, in percent of the book, on either side of the spine */
+const spineWidth = 3;
+
+/** Plain colors for the shading when the custom properties are not used */
+const plainColors = { shadowColor: '0,0,0', highlightColor: '255,255,255' } as const;
+
+const supportsColorMix = (): boolean =>
+  typeof CSS === 'undefined' ||
+  typeof CSS.supports !== 'function' ||
+  CSS.supports('color', 'color-mix(in srgb, #000 50%, transparent)');
+
+export class Theme {
+  readonly turn: Turn;
+  readonly options: Required<TurnTheme>;
+
+  /** Whether the shading goes through the custom properties, or is plain `rgba()` */
+  private readonly custom: boolean;
+  private readonly spine?: HTMLElement;
+  /** Edges of the pages already read and of those still to read */
+  private readonly edges?: readonly [HTMLElement, HTMLElement];
+
+  constructor(turn: Turn, theme?: TurnTheme) {
+    numericSettings.forEach(name => {
+      const value = theme?.[name];
+      if (value !== undefined && !(value >= 0)) {
+        throw new Error(`"${String(value)}" is not a value for theme.${name}`);
+      }
+    });
+
+    this.turn = turn;
+    this.options = { ...defaultTheme, ...theme };
+    this.custom = theme !== undefined && supportsColorMix();
+
+    if (theme?.spineShadow !== undefined) {
+      this.spine = createDiv('turn-spine');
+      turn.element.append(this.spine);
+    }
+    if (theme?.edgeThickness !== undefined) {
+      this.edges = [createDiv('turn-edge'), createDiv('turn-edge')];
+      turn.element.append(...this.edges);
+    }
+  }
+
+  /** The shadow color at `opacity` times the intensity and any `factors` settings */
+  shadow(opacity: number, ...factors: (keyof TurnTheme)[]): string {
+    return this.mix('shadowColor', opacity, factors);
+  }
+
+  highlight(opacity: number, ...factors: (keyof TurnTheme)[]): string {
+    return this.mix('highlightColor', opacity, factors);
+  }
+
+  /** Stops across the back of a fold: clear from `start`, shaded, then lit at the edge */
+  foldStops(start: number, strength: number): GradientStop[] {
+    return [
+      [start, 'transparent'],
+      [0.8 * (1 - start) + start, this.shadow(strength, 'foldShadow')],
+      [1, this.highlight(strength, 'foldHighlight')]
+    ];
+  }
+
+  /** Lays out the spine shadow and the edges for the current view and display */
+  refresh(): void {
+    const { turn, spine, edges } = this;
+    if (!spine && !edges) return;
+
+    const { state } = turn;
+    const vertical = state.orientation === 'vertical';
+    const total = Math.max(state.totalPages, 1);
+    const view = turn.view().filter(Boolean);
+    const across = vertical ? 'to bottom' : 'to right';
+    // Sides of the book holding the pages read and the pages still to read
+    const sides = vertical
+      ? (['top', 'bottom'] as const)
+      : state.direction === 'rtl'
+        ? (['right', 'left'] as const)
+        : (['left', 'right'] as const);
+    const band = (size: string, offset?: string): StyleMap =>
+      vertical
+        ? { left: 0, right: 0, top: offset, height: size }
+        : { top: 0, bottom: 0, left: offset, width: size };
+
+    if (spine) {
+      place(spine, {
+        ...band(`${2 * spineWidth}%`, `${50 - spineWidth}%`),
+        display: state.display === 'double' ? '' : 'none',
+        zIndex: state.totalPages + 1,
+        backgroundImage: `linear-gradient(${across}, transparent, ${this.shadow(1, 'spineShadow')}, transparent)`
+      });
+    }
+
+    const shares = [
+      view.length ? (view[0] - 1) / total : 0,
+      view.length ? (total - view[view.length - 1]) / total : 0
+    ];
+    edges?.forEach((edge, i) => {
+      place(edge, {
+        ...band(`calc(${this.value('edgeThickness')} * ${shares[i]})`),
+        [opposite[sides[i]]]: '100%',
+        backgroundImage: `repeating-linear-gradient(${across}, ${this.highlight(1)} 0 1px, ${this.shadow(0.15)} 1px 2px)`
+      });
+    });
+  }
+
+  destroy(): void {
+    this.spine?.remove();
+    this.edges?.forEach(edge => edge.remove());
+  }
+
+  /** The CSS custom property for `name`, falling back to the option */
+  private value(name: keyof TurnTheme): string {
+    const fallback = this.options[name];
+    return `var(${themeProperties[name]}, ${name === 'edgeThickness' ? `${fallback}px` : fallback})`;
+  }
+
+  private mix(
+    color: 'shadowColor' | 'highlightColor',
+    opacity: number,
+    factors: readonly (keyof TurnTheme)[]
+  ): string {
+    const names = ['shadowIntensity', ...factors] as const;
+    if (!this.custom) {
+      const alpha = names.reduce((product, name) => product * Number(this.options[name]), opacity);
+      return `rgba(${plainColors[color]},${alpha})`;
+    }
+
+    const strength = names.map(name => this.value(name));
+    const percent = Math.round(opacity * 10000) / 100;
+    return `color-mix(in srgb, ${this.value(color)} calc(${strength.join(' * ')} * ${percent}%), transparent)`;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Page changes other than the curl: sliding or fading whole spreads, or swapping them
+ * at once, with the curl as the default unless the user prefers reduced motion
+ */
+
+import type { TransitionMode } from '../types.js';
+import { createAnimation, type Animation } from '../utils/animation.js';
+import { setStyle } from '../utils/dom.js';
+import { translate } from '../utils/geometry.js';
+import type { Turn } from '../engine/turn.js';
+
+export const transitionModes: readonly TransitionMode[] = ['curl', 'slide', 'fade', 'none'];
+
+const reducedMotion = '(prefers-reduced-motion: reduce)';
+
+/** A running slide or fade and what it has to put back once it ends */
+interface TransitionEffect {
+  readonly animation: Animation;
+  readonly wrappers: readonly HTMLElement[];
+  readonly overflow: string;
+}
+
+export class Transition {
+  readonly turn: Turn;
+
+  private current: TransitionMode;
+  /** Set once a mode was chosen, which stops the mode following the user's preference */
+  private chosen: boolean;
+  private readonly media: MediaQueryList | null;
+  private effect: TransitionEffect | null = null;
+
+  constructor(turn: Turn, mode?: TransitionMode) {
+    this.turn = turn;
+    this.media = typeof matchMedia === 'function' ? matchMedia(reducedMotion) : null;
+    this.chosen = mode !== undefined;
+    this.current = mode ?? this.preferred();
+    this.media?.addEventListener('change', this.handlePreferenceChange);
+  }
+
+  get mode(): TransitionMode {
+    return this.current;
+  }
+
+  get running(): boolean {
+    return this.effect !== null;
+  }
+
+  /** Switches to `mode`, finishing any turn under way on the page it was going to */
+  set(mode: TransitionMode): void {
+    if (!transitionModes.includes(mode)) {
+      throw new Error(`"${String(mode)}" is not a value for transition`);
+    }
+    this.chosen = true;
+    this.apply(mode);
+  }
+
+  /**
+   * Replaces the pages of `from` with those of `to` and calls `complete` once they are
+   * in place, after the book's duration unless the mode is `'none'`
+   */
+  run(
+    from: readonly number[],
+    to: readonly number[],
+    forward: boolean,
+    complete: () => void
+  ): void {
+    const { turn, current } = this;
+    const { state, element } = turn;
+    const { duration } = state.opts;
+    this.stop();
+
+    const wrapperOf = (pages: readonly number[]): HTMLElement[] =>
+      pages.flatMap(page => state.pageWrap.get(page) ?? []);
+    const incoming = wrapperOf(to.filter(page => page && !from.includes(page)));
+    const outgoing = wrapperOf(from.filter(page => page && !to.includes(page)));
+
+    if (current === 'none' || duration <= 0 || !incoming.length) {
+      complete();
+      return;
+    }
+
+    const vertical = state.orientation === 'vertical';
+    const extent = vertical ? state.height : state.width;
+    // Going forward, the new spread comes in from the end of the reading direction
+    const sign = forward === (vertical || state.direction === 'ltr') ? -1 : 1;
+    const shift = (offset: number): string =>
+      vertical ? translate(0, offset, false) : translate(offset, 0, false);
+
+    incoming.forEach(wrap => setStyle(wrap, { display: '', zIndex: state.totalPages + 1 }));
+
+    const effect: TransitionEffect = {
+      wrappers: [...incoming, ...outgoing],
+      overflow: element.style.overflow,
+      animation: createAnimation({
+        from: [0],
+        to: [1],
+        duration,
+        easing: state.opts.easing,
+        clock: state.opts.clock,
+        turning: true,
+        frame: ([t]) => {
+          if (current === 'fade') {
+            incoming.forEach(wrap => (wrap.style.opacity = String(t)));
+          } else {
+            incoming.forEach(wrap => (wrap.style.transform = shift((t - 1) * sign * extent)));
+            outgoing.forEach(wrap => (wrap.style.transform = shift(t * sign * extent)));
+          }
+        },
+        complete: () => {
+          if (this.effect !== effect) return;
+          this.stop();
+          complete();
+        }
+      })
+    };
+
+    if (current === 'slide') element.style.overflow = 'hidden';
+    this.effect = effect;
+    effect.animation.start();
+  }
+
+  /** Ends a running slide or fade where it is, without completing the turn */
+  stop(): void {
+    const { effect } = this;
+    if (!effect) return;
+
+    this.effect = null;
+    effect.animation.stop();
+    effect.wrappers.forEach(wrap => setStyle(wrap, { opacity: '', transform: '' }));
+    this.turn.element.style.overflow = effect.overflow;
+  }
+
+  destroy(): void {
+    this.media?.removeEventListener('change', this.handlePreferenceChange);
+    this.stop();
+  }
+
+  private preferred(): TransitionMode {
+    return this.media?.matches ? 'fade' : 'curl';
+  }
+
+  private apply(mode: TransitionMode): void {
+    const { turn } = this;
+    if (mode === this.current) return;
+
+    turn.stop();
+    this.current = mode;
+    turn.update();
+  }
+
+  private readonly handlePreferenceChange = (): void => {
+    if (!this.chosen) this.apply(this.preferred());
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Zooming and panning the whole book, with double-click/double-tap and pinch gestures
+ */
+
+import type { ZoomOptions } from '../types.js';
+import { point, type Point } from '../utils/geometry.js';
+import type { Turn } from '../engine/turn.js';
+
+/** Longest gap, in ms, and widest distance, in px, between the taps of a double-tap */
+const doubleTap = { time: 300, distance: 30 };
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+interface Pinch {
+  readonly distance: number;
+  readonly level: number;
+}
+
+interface Tap {
+  readonly time: number;
+  readonly x: number;
+  readonly y: number;
+}
+
+export class Zoom {
+  readonly turn: Turn;
+  readonly options: Required<ZoomOptions>;
+  level = 1;
+  /** Pan offset of the zoomed book, always between the book size and 0 */
+  x = 0;
+  y = 0;
+
+  /** The book's own transform, put back on zoom-out */
+  private baseTransform = '';
+  /** Viewport positions of the pointers pressed on the book */
+  private readonly pointers = new Map<number, Point>();
+  private pinch: Pinch | null = null;
+  private lastTap: Tap | null = null;
+
+  constructor(turn: Turn, options: boolean | ZoomOptions = false) {
+    this.turn = turn;
+    this.options = {
+      max: 3,
+      level: 2,
+      gestures: options !== false,
+      ...(typeof options === 'object' ? options : {})
+    };
+
+    if (!this.options.gestures) return;
+
+    const { element } = turn;
+    element.addEventListener('dblclick', this.handleDoubleClick);
+    element.addEventListener('pointerdown', this.handlePointerDown);
+    document.addEventListener('pointermove', this.handlePointerMove);
+    document.addEventListener('pointerup', this.handlePointerEnd);
+    document.addEventListener('pointercancel', this.handlePointerEnd);
+  }
+
+  get zoomed(): boolean {
+    return this.level > 1;
+  }
+
+  /**
+   * Zooms to `level`, clamped between 1 and `max`, keeping `origin` in place. The origin
+   * is relative to the unzoomed book and defaults to its center. Fires `zoomin` when
+   * leaving level 1 and `zoomout` when coming back to it.
+   */
+  set(level: number, origin?: Point): void {
+    const { turn } = this;
+    const previous = this.level;
+    level = Math.min(Math.max(level, 1), this.options.max);
+    if (level === previous) return;
+
+    const { width, height } = turn.size();
+    const center = origin ?? point(width / 2, height / 2);
+
+    if (previous === 1) {
+      turn.stop();
+      this.baseTransform = turn.element.style.transform;
+    }
+
+    this.x = center.x - ((center.x - this.x) / previous) * level;
+    this.y = center.y - ((center.y - this.y) / previous) * level;
+    this.level = level;
+    this.apply();
+
+    if (previous === 1) {
+      turn.update();
+      turn.emit('zoomin', { level });
+    } else if (level === 1) {
+      turn.update();
+      turn.emit('zoomout', { level });
+    }
+    turn.persistence?.save();
+  }
+
+  /** Moves the zoomed book by `dx`, `dy` without letting it leave its box */
+  panBy(dx: number, dy: number): void {
+    if (!this.zoomed) return;
+    this.x += dx;
+    this.y += dy;
+    this.apply();
+  }
+
+  /** Clamps the pan to the current book size and applies the transform */
+  apply(): void {
+    const { element } = this.turn;
+    const { width, height } = this.turn.size();
+    const { level } = this;
+
+    if (level === 1) {
+      this.x = this.y = 0;
+      element.style.transform = this.baseTransform;
+      element.style.transformOrigin = '';
+      element.style.clipPath = '';
+      return;
+    }
+
+    this.x = Math.min(0, Math.max(width - width * level, this.x));
+    this.y = Math.min(0, Math.max(height - height * level, this.y));
+
+    const top = -this.y / level;
+    const left = -this.x / level;
+    const right = width - (width - this.x) / level;
+    const bottom = height - (height - this.y) / level;
+
+    element.style.transformOrigin = '0 0';
+    element.style.transform = `translate(${this.x}px, ${this.y}px) scale(${level})`;
+    element.style.clipPath = `inset(${top}px ${right}px ${bottom}px ${left}px)`;
+  }
+
+  destroy(): void {
+    if (!this.options.gestures) return;
+
+    const { element } = this.turn;
+    element.removeEventListener('dblclick', this.handleDoubleClick);
+    element.removeEventListener('pointerdown', this.handlePointerDown);
+    document.removeEventListener('pointermove', this.handlePointerMove);
+    document.removeEventListener('pointerup', this.handlePointerEnd);
+    document.removeEventListener('pointercancel', this.handlePointerEnd);
+    this.pointers.clear();
+  }
+
+  /** Converts viewport coordinates to coordinates on the unzoomed book */
+  private bookPoint(clientX: number, clientY: number): Point {
+    const rect = this.turn.element.getBoundingClientRect();
+    const offset = this.zoomed ? this : point(0, 0);
+    return point(clientX - rect.left + offset.x, clientY - rect.top + offset.y);
+  }
+
+  private toggle(origin: Point): void {
+    this.set(this.zoomed ? 1 : this.options.level, origin);
+  }
+
+  private readonly handleDoubleClick = (event: MouseEvent): void => {
+    this.toggle(this.bookPoint(event.clientX, event.clientY));
+  };
+
+  private readonly handlePointerDown = (event: PointerEvent): void => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    const position = point(event.clientX, event.clientY);
+    this.pointers.set(event.pointerId, position);
+
+    if (this.pointers.size === 2) {
+      const [a, b] = Array.from(this.pointers.values());
+      this.pinch = { distance: distance(a, b), level: this.level };
+      this.lastTap = null;
+      event.preventDefault();
+      return;
+    }
+    if (this.pointers.size > 2) return;
+
+    if (event.pointerType !== 'mouse') {
+      const now = Date.now();
+      const tap = this.lastTap;
+      if (tap && now - tap.time < doubleTap.time && distance(tap, position) < doubleTap.distance) {
+        this.lastTap = null;
+        this.toggle(this.bookPoint(position.x, position.y));
+        event.preventDefault();
+        return;
+      }
+      this.lastTap = { time: now, ...position };
+    }
+
+    if (this.zoomed) event.preventDefault();
+  };
+
+  /** Pinches with the first two pointers, or pans with a single one while zoomed */
+  private readonly handlePointerMove = (event: PointerEvent): void => {
+    const previous = this.pointers.get(event.pointerId);
+    if (!previous) return;
+
+    const position = point(event.clientX, event.clientY);
+    this.pointers.set(event.pointerId, position);
+
+    if (this.pinch && this.pointers.size >= 2) {
+      const [a, b] = Array.from(this.pointers.values());
+      const origin = this.bookPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+      this.set((this.pinch.level * distance(a, b)) / this.pinch.distance, origin);
+      event.preventDefault();
+    } else if (this.zoomed && this.pointers.size === 1) {
+      this.panBy(position.x - previous.x, position.y - previous.y);
+      event.preventDefault();
+    }
+  };
+
+  private readonly handlePointerEnd = (event: PointerEvent): void => {
+    this.pointers.delete(event.pointerId);
+    if (this.pointers.size < 2) this.pinch = null;
+  };
+}
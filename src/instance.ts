@@ -0,0 +1,197 @@
+/**
+ * The typed `TurnInstance` wrapper handed out by `createTurn` and `useTurn`
+ */
+
+import { Turn, getTurn, toListener } from './engine/turn.js';
+
+import type {
+  AutoplayOptions,
+  Corner,
+  Direction,
+  DisplayMode,
+  NavigationOptions,
+  PageOptions,
+  Size,
+  TransitionMode,
+  TurnEventHandler,
+  TurnEventName,
+  TurnInstance,
+  TurnWhenHandlers
+} from './types.js';
+
+type AnyEventHandler = NonNullable<TurnWhenHandlers[TurnEventName]>;
+
+/** The engine behind each instance handed out by `wrapInstance` */
+const engines = new WeakMap<TurnInstance, Turn>();
+
+/**
+ * The engine behind an instance from `createTurn` or `useTurn`, or a connected
+ * `<page-turn>`; throws for anything else, naming `caller`
+ */
+export const engineOf = (instance: TurnInstance, caller: string): Turn => {
+  const turn =
+    engines.get(instance) ?? (instance instanceof HTMLElement ? getTurn(instance) : undefined);
+  if (!turn) {
+    throw new Error(
+      `${caller} needs an instance from createTurn or useTurn, or a connected <page-turn>`
+    );
+  }
+  return turn;
+};
+
+export const wrapInstance = (engine: Turn): TurnInstance => {
+  const listenerRegistry = new Map<TurnEventName, Map<AnyEventHandler, EventListener>>();
+
+  const ensureListenerBucket = (event: TurnEventName): Map<AnyEventHandler, EventListener> => {
+    if (!listenerRegistry.has(event)) listenerRegistry.set(event, new Map());
+    return listenerRegistry.get(event)!;
+  };
+
+  const live = (): Turn => {
+    if (engine.state.destroyed) throw new Error('This PageTurn.js instance has been destroyed');
+    return engine;
+  };
+
+  engine.addTeardown(() => {
+    listenerRegistry.forEach((bucket, event) => {
+      bucket.forEach(callback => engine.element.removeEventListener(event, callback));
+    });
+    listenerRegistry.clear();
+  });
+
+  const instance: TurnInstance = {
+    addPage(pageElement: HTMLElement, page?: number, options?: PageOptions) {
+      live().addPage(pageElement, page, options);
+      return instance;
+    },
+    hasPage(page: number) {
+      return live().hasPage(page);
+    },
+    display(mode?: DisplayMode): DisplayMode | TurnInstance {
+      if (mode === undefined) return live().display();
+      live().display(mode);
+      return instance;
+    },
+    direction(direction?: Direction): Direction | TurnInstance {
+      if (direction === undefined) return live().direction();
+      live().direction(direction);
+      return instance;
+    },
+    transition(mode?: TransitionMode): TransitionMode | TurnInstance {
+      if (mode === undefined) return live().transition();
+      live().transition(mode);
+      return instance;
+    },
+    animating() {
+      return live().animating();
+    },
+    disable(disabled?: boolean) {
+      live().disable(disabled);
+      return instance;
+    },
+    size(width?: number, height?: number): Size | TurnInstance {
+      if (width === undefined || height === undefined) return live().size();
+      live().size(width, height);
+      return instance;
+    },
+    resize() {
+      live().resize();
+    },
+    removePage(page: number) {
+      live().removePage(page);
+      return instance;
+    },
+    pages(total?: number): number | TurnInstance {
+      if (total === undefined) return live().pages();
+      live().pages(total);
+      return instance;
+    },
+    range(page?: number) {
+      return live().range(page);
+    },
+    view(page?: number) {
+      return live().view(page);
+    },
+    page(page?: number, options?: NavigationOptions): number | TurnInstance {
+      if (page === undefined) return live().page();
+      live().page(page, options);
+      return instance;
+    },
+    goTo(page: number | string, options?: NavigationOptions) {
+      return live().goTo(page, options);
+    },
+    next(options?: NavigationOptions) {
+      return live().goNext(options);
+    },
+    previous(options?: NavigationOptions) {
+      return live().goPrevious(options);
+    },
+    stop() {
+      live().stop();
+      return instance;
+    },
+    peel(corner?: Corner, amount?: number) {
+      live().peel(corner, amount);
+      return instance;
+    },
+    unpeel() {
+      live().unpeel();
+      return instance;
+    },
+    autoplay(options?: AutoplayOptions) {
+      return live().autoplay(options);
+    },
+    zoom(level?: number): number | TurnInstance {
+      if (level === undefined) return live().zoom();
+      live().zoom(level);
+      return instance;
+    },
+    toc() {
+      return live().toc();
+    },
+    bookmarks() {
+      return live().bookmarks.list();
+    },
+    addBookmark(page: number | string, label?: string) {
+      live().addBookmark(page, label);
+      return instance;
+    },
+    removeBookmark(page: number | string) {
+      live().removeBookmark(page);
+      return instance;
+    },
+    clearProgress() {
+      live().clearProgress();
+      return instance;
+    },
+    on<TName extends TurnEventName>(event: TName, handler: NonNullable<TurnWhenHandlers[TName]>) {
+      const { element } = live();
+      const bucket = ensureListenerBucket(event);
+      const key = handler as AnyEventHandler;
+      if (bucket.has(key)) return instance;
+
+      const callback = toListener(handler as TurnEventHandler<unknown>);
+      bucket.set(key, callback);
+      element.addEventListener(event, callback);
+      return instance;
+    },
+    off<TName extends TurnEventName>(event: TName, handler: NonNullable<TurnWhenHandlers[TName]>) {
+      const { element } = live();
+      const bucket = listenerRegistry.get(event);
+      const key = handler as AnyEventHandler;
+      const callback = bucket?.get(key);
+      if (callback) {
+        element.removeEventListener(event, callback);
+        bucket?.delete(key);
+      }
+      return instance;
+    },
+    destroy() {
+      live().destroy();
+    }
+  };
+
+  engines.set(instance, engine);
+  engine.plugins.install(instance, live);
+  return instance;
+};
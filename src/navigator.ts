@@ -0,0 +1,195 @@
+/**
+ * Thumbnail navigator: a strip of page thumbnails, grouped into spreads, that shows
+ * where the reader is and turns the book to the spread that is clicked
+ */
+
+import type { Turn } from './engine/turn.js';
+import { engineOf } from './instance.js';
+import { createDiv, setStyle } from './utils/dom.js';
+
+import type { NavigatorOptions, ThumbnailNavigator, TurnInstance } from './types.js';
+
+const defaultSpreadLabel = (pages: readonly number[]): string =>
+  pages.length > 1 ? `Pages ${pages[0]}–${pages[pages.length - 1]}` : `Page ${pages[0]}`;
+
+/** Keys that move the focus along the strip, by how many spreads */
+const focusKeys: Record<string, number> = {
+  ArrowRight: 1,
+  ArrowDown: 1,
+  ArrowLeft: -1,
+  ArrowUp: -1
+};
+
+/** Events after which the spreads are built again */
+const rebuildEvents = ['pageschange', 'displaychange', 'directionchange'] as const;
+
+class Navigator implements ThumbnailNavigator {
+  readonly element: HTMLElement;
+
+  private readonly turn: Turn;
+  private readonly options: Required<Omit<NavigatorOptions, 'image'>> &
+    Pick<NavigatorOptions, 'image'>;
+  private spreads: { readonly pages: readonly number[]; readonly button: HTMLButtonElement }[] = [];
+
+  constructor(turn: Turn, container: HTMLElement, options: NavigatorOptions) {
+    this.turn = turn;
+    this.options = {
+      height: options.height ?? 80,
+      label: options.label ?? 'Pages',
+      spreadLabel: options.spreadLabel ?? defaultSpreadLabel,
+      image: options.image
+    };
+
+    this.element = document.createElement('nav');
+    this.element.className = 'turn-navigator';
+    this.element.setAttribute('aria-label', this.options.label);
+    setStyle(this.element, { display: 'flex', gap: 8, overflowX: 'auto' });
+    this.element.addEventListener('keydown', this.handleKeydown);
+    container.appendChild(this.element);
+
+    const { element } = turn;
+    rebuildEvents.forEach(type => element.addEventListener(type, this.handleRebuild));
+    element.addEventListener('turned', this.handleTurned);
+    element.addEventListener('destroyed', this.handleDestroyed);
+
+    this.refresh();
+  }
+
+  /** Builds the thumbnails again from the pages as they are now */
+  refresh(): void {
+    const { turn } = this;
+    const total = turn.state.totalPages;
+    const focused = this.spreads.findIndex(({ button }) => button === document.activeElement);
+
+    this.spreads = [];
+    for (let page = 1; page <= total; ) {
+      const pages = turn.view(page).filter(Boolean);
+      this.spreads.push({ pages, button: this.createSpread(pages) });
+      page = pages[pages.length - 1] + 1;
+    }
+
+    this.element.dir = turn.state.direction;
+    this.element.replaceChildren(...this.spreads.map(({ button }) => button));
+    this.highlight();
+    if (focused >= 0) this.spreads[Math.min(focused, this.spreads.length - 1)]?.button.focus();
+  }
+
+  destroy(): void {
+    const { element } = this.turn;
+    rebuildEvents.forEach(type => element.removeEventListener(type, this.handleRebuild));
+    element.removeEventListener('turned', this.handleTurned);
+    element.removeEventListener('destroyed', this.handleDestroyed);
+    this.element.remove();
+    this.spreads = [];
+  }
+
+  private createSpread(pages: readonly number[]): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'turn-navigator-spread';
+    button.setAttribute('aria-label', this.options.spreadLabel(pages));
+    setStyle(button, { display: 'flex', flex: 'none', padding: 0 });
+    button.append(...pages.map(page => this.createThumbnail(page)));
+    button.addEventListener('click', () =>
+      this.turn.withSource('click', () => this.turn.page(pages[0]))
+    );
+    return button;
+  }
+
+  /** The user's image of `page`, or else a scaled-down copy of the page */
+  private createThumbnail(page: number): HTMLElement {
+    const { width, height } = this.turn.pageSize();
+    const thumbHeight = this.options.height;
+    const scale = height ? thumbHeight / height : 0;
+    const thumbnail = createDiv('turn-navigator-page', {
+      position: 'relative',
+      overflow: 'hidden',
+      width: Math.round(width * scale),
+      height: thumbHeight
+    });
+    thumbnail.setAttribute('aria-hidden', 'true');
+
+    const src = this.options.image?.(page);
+    const original = this.turn.state.pageObjs.get(page);
+
+    if (src !== undefined) {
+      const image = document.createElement('img');
+      image.src = src;
+      image.alt = '';
+      setStyle(image, { width: '100%', height: '100%', objectFit: 'cover' });
+      thumbnail.appendChild(image);
+    } else if (original) {
+      const copy = original.cloneNode(true) as HTMLElement;
+      copy.removeAttribute('id');
+      copy.querySelectorAll('[id]').forEach(child => child.removeAttribute('id'));
+      setStyle(copy, {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width,
+        height,
+        transform: `scale(${scale})`,
+        transformOrigin: '0 0',
+        pointerEvents: 'none'
+      });
+      thumbnail.appendChild(copy);
+    } else {
+      thumbnail.textContent = String(page);
+    }
+
+    return thumbnail;
+  }
+
+  /** Marks the spread in view as current and makes it the one Tab lands on */
+  private highlight(): void {
+    const view = this.turn.view();
+    const current = this.spreads.findIndex(({ pages }) => pages.some(page => view.includes(page)));
+
+    this.spreads.forEach(({ button }, i) => {
+      button.classList.toggle('turn-navigator-current', i === current);
+      if (i === current) button.setAttribute('aria-current', 'page');
+      else button.removeAttribute('aria-current');
+      button.tabIndex = i === Math.max(current, 0) ? 0 : -1;
+    });
+  }
+
+  private readonly handleKeydown = (event: KeyboardEvent): void => {
+    const { spreads } = this;
+    const index = spreads.findIndex(({ button }) => button === event.target);
+    if (index < 0) return;
+
+    // The strip runs right to left in a right-to-left book
+    const mirror = this.turn.state.direction === 'rtl' && /^Arrow(Left|Right)$/.test(event.key);
+    const step = focusKeys[event.key];
+    let next: number;
+
+    if (event.key === 'Home') next = 0;
+    else if (event.key === 'End') next = spreads.length - 1;
+    else if (step !== undefined) next = index + (mirror ? -step : step);
+    else return;
+
+    next = Math.min(Math.max(next, 0), spreads.length - 1);
+    event.preventDefault();
+    spreads.forEach(({ button }, i) => (button.tabIndex = i === next ? 0 : -1));
+    spreads[next].button.focus();
+  };
+
+  private readonly handleRebuild = (): void => this.refresh();
+
+  private readonly handleTurned = (): void => this.highlight();
+
+  private readonly handleDestroyed = (): void => this.destroy();
+}
+
+/**
+ * Appends a thumbnail strip for the book behind `instance` to `container`. The strip
+ * follows the pages, display mode and view of the book and goes when the book does.
+ */
+export const createNavigator = (
+  instance: TurnInstance,
+  container: HTMLElement,
+  options: NavigatorOptions = {}
+): ThumbnailNavigator => {
+  const turn = engineOf(instance, 'createNavigator');
+  return new Navigator(turn, container, options);
+};
@@ -0,0 +1,88 @@
+/**
+ * Server rendering: the markup of a book showing its first spread, built as a string
+ * without any DOM, and the take-over of that markup by the engine on the client
+ */
+
+import type { StaticTurnOptions } from './types.js';
+
+/** Marks a server-rendered book and holds the page it shows */
+const STATIC_ATTRIBUTE = 'data-turn-static';
+/** Marks the pages of a server-rendered book */
+const PAGE_ATTRIBUTE = 'data-turn-page';
+
+type StaticStyles = Record<string, string | number>;
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const css = (styles: StaticStyles): string =>
+  Object.entries(styles)
+    .map(([key, value]) => {
+      const prop = key.replace(/([A-Z])/g, '-$1').toLowerCase();
+      return `${prop}:${typeof value === 'number' ? `${value}px` : value}`;
+    })
+    .join(';');
+
+/**
+ * Renders `pages`, given as HTML strings, as a book showing the spread of `options.page`
+ * with every other page hidden. Passing the element to `createTurn` on the client lays
+ * the book out again and opens it on the same page.
+ */
+export const renderStaticTurn = (pages: readonly string[], options: StaticTurnOptions): string => {
+  const { width, height, display = 'double', direction = 'ltr', attributes = {} } = options;
+  const double = display === 'double';
+  const vertical = options.orientation === 'vertical';
+  const page = Math.min(Math.max(Math.trunc(options.page ?? 1), 1), Math.max(pages.length, 1));
+  const view = double ? (page % 2 ? [page - 1, page] : [page, page + 1]) : [page];
+  const pageWidth = double && !vertical ? width / 2 : width;
+  const pageHeight = double && vertical ? height / 2 : height;
+
+  const position = (n: number): StaticStyles => {
+    const second = double && (direction === 'ltr' ? n % 2 : 1 - (n % 2)) === 1;
+    return vertical
+      ? { top: second ? pageHeight : 0, left: 0 }
+      : { top: 0, left: second ? pageWidth : 0 };
+  };
+
+  const markup = pages.map((html, i) => {
+    const n = i + 1;
+    const style = view.includes(n)
+      ? css({ position: 'absolute', ...position(n), width: pageWidth, height: pageHeight })
+      : 'display:none';
+    return `<div ${PAGE_ATTRIBUTE}="${n}" style="${style}">${html}</div>`;
+  });
+
+  const bookStyle = [attributes.style, css({ position: 'relative', width, height })]
+    .filter(Boolean)
+    .join(';');
+  const bookAttributes = Object.entries({
+    ...attributes,
+    style: bookStyle,
+    [STATIC_ATTRIBUTE]: String(page)
+  })
+    .map(([name, value]) => `${name}="${escapeAttribute(value)}"`)
+    .join(' ');
+
+  return `<div ${bookAttributes}>${markup.join('')}</div>`;
+};
+
+/** The page a server-rendered book shows, or undefined for any other element */
+export const staticPage = (element: Element): number | undefined => {
+  const page = Number(element.getAttribute(STATIC_ATTRIBUTE));
+  return page > 0 ? page : undefined;
+};
+
+/** Strips the layout `renderStaticTurn` gave a book and its pages; other elements are left alone */
+export const takeOverStatic = (element: HTMLElement): void => {
+  if (!element.hasAttribute(STATIC_ATTRIBUTE)) return;
+
+  element.removeAttribute(STATIC_ATTRIBUTE);
+  ['position', 'width', 'height'].forEach(prop => element.style.removeProperty(prop));
+  if (!element.getAttribute('style')) element.removeAttribute('style');
+
+  Array.from(element.children).forEach(child => {
+    if (!child.hasAttribute(PAGE_ATTRIBUTE)) return;
+    child.removeAttribute(PAGE_ATTRIBUTE);
+    child.removeAttribute('style');
+  });
+};
@@ -0,0 +1,282 @@
+/**
+ * Linked books: several instances, in one window or across frames and windows, that
+ * mirror each other's page, display mode and corner drags through a transport
+ */
+
+import type { Flip } from './engine/flip.js';
+import type { Turn } from './engine/turn.js';
+import { engineOf } from './instance.js';
+
+import type {
+  DisplayMode,
+  SyncBus,
+  SyncMessage,
+  SyncOptions,
+  SyncRole,
+  SyncTransport,
+  TurnInstance,
+  TurnLink
+} from './types.js';
+
+const corners: readonly string[] = ['tl', 'tr', 'bl', 'br'];
+const displays: readonly string[] = ['single', 'double'];
+
+/** Key wrapping messages sent with `postMessage`, so that other messages are left alone */
+const envelope = 'pageturnSync';
+
+/** Events after which the state of the book is sent */
+const stateEvents = ['turn', 'turned', 'displaychange'] as const;
+
+/** Orders changes: a higher clock wins, and the higher origin settles a tie */
+interface Stamp {
+  readonly clock: number;
+  readonly origin: string;
+}
+
+const isNewer = (a: Stamp, b: Stamp): boolean =>
+  a.clock > b.clock || (a.clock === b.clock && a.origin > b.origin);
+
+const isShare = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+const randomId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+
+export class Sync implements TurnLink {
+  readonly turn: Turn;
+  readonly id: string;
+  readonly role: SyncRole;
+
+  private readonly transport: SyncTransport;
+  private readonly drag: boolean;
+  private readonly stopListening: () => void;
+  /** Highest clock seen, sent or received */
+  private clock = 0;
+  /** Stamp of the state the book shows; a follower takes any state it receives */
+  private stamp: Stamp;
+  /** The page and display the stamp stands for; the book showing them sends nothing */
+  private shown: { page: number; display: DisplayMode };
+  /** Set while a received state is put in place, whose changes are not sent back */
+  private applying = false;
+
+  constructor(turn: Turn, options: SyncOptions) {
+    this.turn = turn;
+    this.id = options.id ?? randomId();
+    this.role = options.role ?? 'peer';
+    this.transport = options.transport;
+    this.drag = options.drag ?? true;
+    this.stamp =
+      this.role === 'follower' ? { clock: -1, origin: '' } : { clock: 0, origin: this.id };
+    this.shown = { page: turn.state.page, display: turn.state.display };
+
+    const { element } = turn;
+    stateEvents.forEach(type => element.addEventListener(type, this.handleChange));
+    element.addEventListener('destroyed', this.handleDestroyed);
+    turn.sync = this;
+
+    this.stopListening = this.transport.listen(this.handleMessage);
+    this.send({ type: 'hello', sender: this.id });
+  }
+
+  unlink(): void {
+    const { turn } = this;
+    stateEvents.forEach(type => turn.element.removeEventListener(type, this.handleChange));
+    turn.element.removeEventListener('destroyed', this.handleDestroyed);
+    if (turn.sync === this) turn.sync = undefined;
+    this.stopListening();
+  }
+
+  /** @internal Called by the book while a corner of `flip` is held and moved */
+  dragged(flip: Flip): void {
+    const { corner } = flip.state;
+    if (!this.drag || this.role === 'follower' || !corner) return;
+
+    const { width, height } = flip.size();
+    this.send({
+      type: 'drag',
+      sender: this.id,
+      page: flip.state.opts.page,
+      corner: corner.corner,
+      x: Math.min(Math.max(corner.x / width, 0), 1),
+      y: Math.min(Math.max(corner.y / height, 0), 1)
+    });
+  }
+
+  /** @internal Called by the book when a held corner falls back */
+  released(flip: Flip): void {
+    if (!this.drag || this.role === 'follower') return;
+    this.send({ type: 'release', sender: this.id, page: flip.state.opts.page });
+  }
+
+  private send(message: SyncMessage): void {
+    this.transport.send(message);
+  }
+
+  private sendState(): void {
+    const { clock, origin } = this.stamp;
+    const { page, display } = this.shown;
+    this.send({ type: 'state', sender: this.id, clock, origin, page, display });
+  }
+
+  /** Takes on a state received from another book if it is newer than the one shown */
+  private receiveState(stamp: Stamp, page: number, display: DisplayMode): void {
+    const { turn } = this;
+    this.clock = Math.max(this.clock, stamp.clock);
+    if (this.role === 'leader' || !isNewer(stamp, this.stamp)) return;
+
+    this.stamp = stamp;
+    this.shown = { page, display };
+    this.applying = true;
+    try {
+      if (turn.state.display !== display) turn.display(display);
+      if (page <= turn.state.totalPages && !turn.view().includes(page)) turn.page(page);
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  /** The flip of `page` if it is in view and free to follow a remote corner */
+  private freeFlip(page: number): Flip | undefined {
+    const { turn } = this;
+    const flip = turn.view().includes(page) ? turn.state.pages.get(page) : undefined;
+    return flip && !flip.state.corner && !flip.isTurning() ? flip : undefined;
+  }
+
+  private readonly handleChange = (event: Event): void => {
+    const { turn, shown } = this;
+    if (this.applying) return;
+
+    // `turn` carries the page being turned to and `turned` the page shown
+    const { detail } = event as CustomEvent<unknown>;
+    const { display } = turn.state;
+    const target =
+      event.type === 'turn'
+        ? (detail as number)
+        : event.type === 'turned'
+          ? (detail as { page: number }).page
+          : turn.state.page;
+    if (display === shown.display && turn.view(shown.page).includes(target)) return;
+
+    this.shown = { page: target, display };
+    if (this.role === 'follower') return;
+
+    this.stamp = { clock: ++this.clock, origin: this.id };
+    this.sendState();
+  };
+
+  private readonly handleMessage = (message: SyncMessage): void => {
+    const { turn } = this;
+    if (typeof message !== 'object' || message === null || message.sender === this.id) return;
+    if (turn.state.destroyed) return;
+
+    switch (message.type) {
+      case 'hello':
+        if (this.role !== 'follower') this.sendState();
+        break;
+      case 'state': {
+        const { clock, origin, page, display } = message;
+        if (
+          typeof clock === 'number' &&
+          typeof origin === 'string' &&
+          Number.isInteger(page) &&
+          page >= 1 &&
+          displays.includes(display)
+        ) {
+          this.receiveState({ clock, origin }, page, display);
+        }
+        break;
+      }
+      case 'drag': {
+        const { page, corner, x, y } = message;
+        const flip = this.drag && this.role !== 'leader' ? this.freeFlip(page) : undefined;
+        if (
+          flip &&
+          corners.includes(corner) &&
+          flip.allowedCorners().includes(corner) &&
+          isShare(x) &&
+          isShare(y)
+        ) {
+          const { width, height } = flip.size();
+          flip.showFoldedPage({ corner, x: x * width, y: y * height });
+        }
+        break;
+      }
+      case 'release':
+        if (this.role !== 'leader') this.freeFlip(message.page)?.hideFoldedPage(true);
+        break;
+    }
+  };
+
+  private readonly handleDestroyed = (): void => this.unlink();
+}
+
+/**
+ * Links the book behind `instance` to the books at the other ends of `options.transport`,
+ * so that they show the same page and display mode. When two peers turn at once, every
+ * book settles on the same turn.
+ */
+export const linkTurn = (instance: TurnInstance, options: SyncOptions): TurnLink => {
+  const turn = engineOf(instance, 'linkTurn');
+  if (turn.sync) throw new Error('This book is already linked');
+  return new Sync(turn, options);
+};
+
+/** A bus that hands every message to the other transports connected to it, at once */
+export const createSyncBus = (): SyncBus => {
+  const listeners = new Set<(message: SyncMessage) => void>();
+
+  return {
+    connect() {
+      let own: ((message: SyncMessage) => void) | undefined;
+      return {
+        send: message => {
+          Array.from(listeners).forEach(listener => {
+            if (listener !== own) listener(message);
+          });
+        },
+        listen: listener => {
+          own = listener;
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        }
+      };
+    }
+  };
+};
+
+/** Links books in windows of the same origin that use the same channel `name` */
+export const broadcastTransport = (name: string): SyncTransport => {
+  const channel = new BroadcastChannel(name);
+  return {
+    send: message => channel.postMessage(message),
+    listen: listener => {
+      const handler = (event: MessageEvent): void => listener(event.data as SyncMessage);
+      channel.addEventListener('message', handler);
+      return () => {
+        channel.removeEventListener('message', handler);
+        channel.close();
+      };
+    }
+  };
+};
+
+/**
+ * Links a book with one in `target`, such as `iframe.contentWindow` or `window.opener`;
+ * only messages from `target` and, unless it is `'*'`, from `origin` are taken
+ */
+export const postMessageTransport = (target: Window, origin = '*'): SyncTransport => ({
+  send: message => target.postMessage({ [envelope]: message }, origin),
+  listen: listener => {
+    const handler = (event: MessageEvent): void => {
+      if (event.source !== target || (origin !== '*' && event.origin !== origin)) return;
+      const data = event.data as Record<string, unknown> | null;
+      if (typeof data === 'object' && data !== null && envelope in data) {
+        listener(data[envelope] as SyncMessage);
+      }
+    };
+    window.addEventListener('message', handler);
+    return () => window.removeEventListener('message', handler);
+  }
+});
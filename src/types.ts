@@ -4,37 +4,498 @@ export type CornerGroup = 'forward' | 'backward' | 'all';
 
 export type DisplayMode = 'single' | 'double';
 
-export type TurnEventName =
-  | 'start'
-  | 'turning'
-  | 'turn'
-  | 'turned'
-  | 'first'
-  | 'last';
+/** Reading direction; in `'rtl'` books page 1 sits on the left and pages turn toward the right */
+export type Direction = 'ltr' | 'rtl';
+
+/** Binding axis; `'vertical'` books are bound along the top and flip upward */
+export type Orientation = 'horizontal' | 'vertical';
+
+/** How a page change is drawn: folding the page, sliding or fading the spread, or not at all */
+export type TransitionMode = 'curl' | 'slide' | 'fade' | 'none';
+
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'circ-out';
+
+/** A preset, or a function mapping elapsed time to progress, both running from 0 to 1 */
+export type Easing = EasingName | ((t: number) => number);
+
+/** Time and frame source for the animations; inject one to step through frames by hand */
+export interface AnimationClock {
+  /** Current time in milliseconds */
+  now(): number;
+  /** Calls `callback` on the next frame; the function returned cancels the call */
+  requestFrame(callback: () => void): () => void;
+}
+
+/**
+ * The events fired on the book. A plugin registers one of its own by adding its handler
+ * to `TurnWhenHandlers` through declaration merging.
+ */
+export type TurnEventName = Extract<keyof TurnWhenHandlers, string>;
 
 export type TurnEventHandler<TPayload> = (payload: TPayload) => void;
 
+/**
+ * Added to the payload of `start` and `turning`; calling it vetoes the fold or the turn,
+ * except for the first page shown and the page a `removePage()` falls back to
+ */
+export interface Cancelable {
+  readonly preventDefault: () => void;
+}
+
 export interface TurnWhenHandlers {
-  readonly start?: TurnEventHandler<{ page: number; corner: Corner }>;
-  readonly turning?: TurnEventHandler<{ page: number; view: readonly number[] }>;
+  readonly start?: TurnEventHandler<{ page: number; corner: Corner } & Cancelable>;
+  readonly turning?: TurnEventHandler<{ page: number; view: readonly number[] } & Cancelable>;
   readonly turn?: TurnEventHandler<number>;
   readonly turned?: TurnEventHandler<{ page: number; view: readonly number[] }>;
   readonly first?: TurnEventHandler<void>;
   readonly last?: TurnEventHandler<void>;
+  readonly missing?: TurnEventHandler<{ pages: readonly number[] }>;
+  readonly zoomin?: TurnEventHandler<{ level: number }>;
+  readonly zoomout?: TurnEventHandler<{ level: number }>;
+  readonly displaychange?: TurnEventHandler<{ display: DisplayMode; previous: DisplayMode }>;
+  readonly directionchange?: TurnEventHandler<{ direction: Direction; previous: Direction }>;
+  /** Fired after `addPage`, `removePage` or `pages()` changed the number of pages */
+  readonly pageschange?: TurnEventHandler<{ pages: number }>;
+  readonly bookmarkadd?: TurnEventHandler<Bookmark>;
+  /** Also fired for the bookmark of a page taken out of the book */
+  readonly bookmarkremove?: TurnEventHandler<Bookmark>;
+  readonly destroyed?: TurnEventHandler<void>;
+}
+
+export type TurnEventPayload<TName extends TurnEventName> = Parameters<
+  NonNullable<TurnWhenHandlers[TName]>
+>[0];
+
+/** The `detail` of the DOM event behind a payload */
+export type TurnEventDetail<TName extends TurnEventName> =
+  TurnEventPayload<TName> extends Cancelable
+    ? Omit<TurnEventPayload<TName>, keyof Cancelable>
+    : TurnEventPayload<TName>;
+
+/**
+ * Decides whether the book may turn from page `from` to page `to`; returning false,
+ * or a Promise that resolves to false or rejects, keeps the book where it is
+ */
+export type TurnGuard = (from: number, to: number) => boolean | void | Promise<boolean | void>;
+
+export interface AccessibilityOptions {
+  /** Accessible name for the book, used when the element has none of its own */
+  readonly label?: string;
+  /** Binds arrow keys, Home/End and PageUp/PageDown on the book; defaults to true */
+  readonly keyboard?: boolean;
+  /** Moves focus into the new spread after a turn that started inside the book; defaults to true */
+  readonly focus?: boolean;
+  readonly pageLabel?: (page: number, total: number) => string;
+  /** Text announced through the live region after every turn */
+  readonly announcement?: (view: readonly number[], total: number) => string;
+}
+
+export interface NavigationOptions {
+  /** Folds the pages over instead of jumping straight to the page; defaults to true */
+  readonly animate?: boolean;
+}
+
+export interface PageOptions {
+  /** Swings on the spine as a rigid board instead of folding; overrides `data-hard` */
+  readonly hard?: boolean;
+  /** Names the page for `goTo()` and the bookmarks; overrides `data-page-id` */
+  readonly id?: string;
+  /** Title of the page in `toc()`; overrides `data-page-label` */
+  readonly label?: string;
+}
+
+/** A page with an id or a label, as listed by `toc()` */
+export interface TocEntry {
+  readonly page: number;
+  readonly id?: string;
+  readonly label?: string;
+}
+
+export interface Bookmark {
+  /** Follows the page as pages are added or removed before it */
+  readonly page: number;
+  /** The label given to the bookmark, or else the label of its page */
+  readonly label?: string;
+}
+
+export interface AutoPeelOptions {
+  /** Milliseconds without pointer, key or page activity before the corner lifts; defaults to 5000 */
+  readonly delay?: number;
+  /** Defaults to the corner that turns forward */
+  readonly corner?: Corner;
+  /** Pixels the corner lifts by; defaults to half of `cornerSize` */
+  readonly amount?: number;
+}
+
+export interface AutoplayOptions {
+  /** Milliseconds each spread stays in view; defaults to 3000 */
+  readonly interval?: number;
+  /** Goes back to the first page after the last instead of stopping; defaults to false */
+  readonly loop?: boolean;
+  /** Holds off while a mouse is over the book; defaults to true */
+  readonly pauseOnHover?: boolean;
+}
+
+export interface AutoplayController {
+  /** Whether pages are turning on the timer: not stopped, paused or hovered */
+  readonly playing: boolean;
+  pause(): void;
+  resume(): void;
+  /** Ends the slideshow for good; `autoplay()` starts a new one */
+  stop(): void;
+}
+
+export interface ZoomOptions {
+  /** Largest zoom level; defaults to 3 */
+  readonly max?: number;
+  /** Level a double-click or double-tap zooms in to; defaults to 2 */
+  readonly level?: number;
+  /** Double-click/double-tap, pinch and drag-to-pan on the book; defaults to true */
+  readonly gestures?: boolean;
+}
+
+export interface SwipeOptions {
+  /** Slowest swipe, in pixels per millisecond, that still turns the page; defaults to 0.5 */
+  readonly velocity?: number;
+  /** Shortest swipe, in pixels along the binding axis, that turns the page; defaults to 30 */
+  readonly distance?: number;
+}
+
+/** Creates the element for a page on demand */
+export type PageProvider = (page: number) => HTMLElement | Promise<HTMLElement>;
+
+export interface ResponsiveOptions {
+  /** Element whose width the book follows; defaults to the book's parent */
+  readonly container?: HTMLElement;
+  /** Smallest container width, in pixels, at which each display mode is used */
+  readonly breakpoints?: Partial<Record<DisplayMode, number>>;
+  /** Page width divided by page height; defaults to the page ratio at creation */
+  readonly aspectRatio?: number;
+}
+
+export interface RoutingOptions {
+  /** Keeps the page in the URL hash or in a query parameter; defaults to `'hash'` */
+  readonly mode?: 'hash' | 'query';
+  /**
+   * The page as written in the URL, `{page}` standing for its number; defaults to
+   * `'page/{page}'` for the hash and `'{page}'` for a query parameter
+   */
+  readonly pattern?: string;
+  /** Query parameter holding the page in `'query'` mode; defaults to `'page'` */
+  readonly param?: string;
+  /** Adds a history entry for every turn, or rewrites the current one; defaults to `'push'` */
+  readonly history?: 'push' | 'replace';
+}
+
+/**
+ * Colors and strengths of the shading drawn on the book. Once a theme is given, even an
+ * empty one, each setting is also read from a CSS custom property on the book or an
+ * ancestor, which wins over the option and can change at any time:
+ * `--pageturn-shadow-color`, `--pageturn-shadow-intensity`, `--pageturn-highlight-color`,
+ * `--pageturn-fold-shadow`, `--pageturn-fold-highlight`, `--pageturn-spine-shadow` and
+ * `--pageturn-edge-thickness`, the last one a length. Browsers without `color-mix()` get
+ * plain black and white shading at the strengths given here.
+ */
+export interface TurnTheme {
+  /** Color of the shadows cast by and onto turning pages; defaults to `'#000'` */
+  readonly shadowColor?: string;
+  /** Scales every shadow and highlight; 0 removes them, defaults to 1 */
+  readonly shadowIntensity?: number;
+  /** Color of the light caught by the edge of a fold; defaults to `'#fff'` */
+  readonly highlightColor?: string;
+  /** Opacity of the shading across the back of a fold; defaults to 0.2 */
+  readonly foldShadow?: number;
+  /** Opacity of the highlight along the edge of a fold; defaults to 0.2 */
+  readonly foldHighlight?: number;
+  /** Opacity of the shadow along the spine of a double display; drawn only when given */
+  readonly spineShadow?: number;
+  /**
+   * Pixels of page edges for the whole book, shown beside it and shared between the
+   * pages read and those still to read; drawn only when given
+   */
+  readonly edgeThickness?: number;
+}
+
+/** Where progress is kept; `localStorage` and `sessionStorage` fit as they are */
+export interface ProgressStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface PersistenceOptions {
+  /** Tells this book's progress apart from that of other books in the same storage */
+  readonly id: string;
+  /** Defaults to `localStorage`; nothing is kept where there is none */
+  readonly storage?: ProgressStorage;
 }
 
 export interface TurnOptions {
   readonly width?: number;
   readonly height?: number;
   readonly page?: number;
+  /** Shades folds and turning pages; `theme` sets their colors */
   readonly gradients?: boolean;
+  readonly theme?: TurnTheme;
   readonly duration?: number;
+  /** Curve of page turns and transitions; defaults to `'circ-out'` */
+  readonly easing?: Easing;
+  /**
+   * Speed, in pixels per millisecond, at which a page let go mid-drag finishes turning
+   * or falls back; without it the page takes `duration` to turn and 800ms to fall back
+   */
+  readonly completionSpeed?: number;
+  /** Defaults to `requestAnimationFrame` timed by `performance.now()` */
+  readonly clock?: AnimationClock;
   readonly acceleration?: boolean;
   readonly display?: DisplayMode;
+  /** Defaults to `'ltr'` */
+  readonly direction?: Direction;
+  /** Defaults to `'horizontal'`; vertical double displays stack pages top and bottom */
+  readonly orientation?: Orientation;
+  /** Defaults to `'curl'`, or `'fade'` while the user prefers reduced motion */
+  readonly transition?: TransitionMode;
   readonly pages?: number;
+  /**
+   * Corner groups as seen in a left-to-right horizontal book; they are mirrored for
+   * `'rtl'` and transposed, so that `'br'` and `'tr'` become `'br'` and `'bl'`, for `'vertical'`
+   */
   readonly corners?: Partial<Record<CornerGroup, readonly Corner[]>>;
   readonly cornerSize?: number;
+  /** Peels a corner after a period without activity, as a hint that pages turn */
+  readonly autoPeel?: boolean | AutoPeelOptions;
+  /** Makes the cover leaves, the first two and the last two pages, hard */
+  readonly hardCovers?: boolean;
   readonly when?: TurnWhenHandlers;
+  /** Runs before every turn, whether it comes from a drag or from `page()`/`next()` */
+  readonly beforeTurn?: TurnGuard;
+  readonly accessibility?: boolean | AccessibilityOptions;
+  readonly responsive?: boolean | ResponsiveOptions;
+  /** Loads pages inside `range()` on demand and unloads them once they leave it; needs `pages` */
+  readonly pageProvider?: PageProvider;
+  /** Syncs the page with the URL, which also gives the first page to show */
+  readonly routing?: boolean | RoutingOptions;
+  /**
+   * Saves the page, zoom level and bookmarks and restores them when the book is created
+   * again; a page in the URL wins over the saved one, and saved pages the book no longer
+   * has are dropped
+   */
+  readonly persistence?: PersistenceOptions;
+  /** Turns the page on a quick swipe anywhere on the book; defaults to true */
+  readonly swipe?: boolean | SwipeOptions;
+  /** Enables the zoom gestures; `zoom()` works without it */
+  readonly zoom?: boolean | ZoomOptions;
+  /** Plugins hooked into the life of the book, run in the order given */
+  readonly plugins?: readonly TurnPlugin[];
+}
+
+/** Layout of the markup built by `renderStaticTurn`; matches the options given to `createTurn` */
+export interface StaticTurnOptions {
+  readonly width: number;
+  readonly height: number;
+  /** Page whose spread is shown; defaults to 1 */
+  readonly page?: number;
+  readonly display?: DisplayMode;
+  readonly direction?: Direction;
+  readonly orientation?: Orientation;
+  /** Attributes of the book element, such as `id` or `class`; values are escaped */
+  readonly attributes?: Readonly<Record<string, string>>;
+}
+
+export interface NavigatorOptions {
+  /** Height of a thumbnail in pixels; defaults to 80 */
+  readonly height?: number;
+  /** URL of an image standing for `page`; pages without one are shown as scaled copies */
+  readonly image?: (page: number) => string | undefined;
+  /** Accessible name of the strip; defaults to `'Pages'` */
+  readonly label?: string;
+  /** Accessible name of the button for a spread; defaults to `'Pages 2–3'` or `'Page 1'` */
+  readonly spreadLabel?: (pages: readonly number[]) => string;
+}
+
+export interface ThumbnailNavigator {
+  /** The `<nav>` holding one button per spread */
+  readonly element: HTMLElement;
+  /** Builds the thumbnails again, for example after the content of pages changed */
+  refresh(): void;
+  /** Removes the strip; it also goes when the book is destroyed */
+  destroy(): void;
+}
+
+/** What set off a turn: a drag or swipe, a click on a corner or thumbnail, a key, or code */
+export type TurnSource = 'drag' | 'click' | 'keyboard' | 'api';
+
+interface AnalyticsRecordBase {
+  /** Counts the reading sessions of the tracker, starting from 1 */
+  readonly session: number;
+  /** `Date.now()` when the record was made */
+  readonly time: number;
+}
+
+/** The reader started reading, when tracking began or the page came back into sight */
+export interface SessionStartRecord extends AnalyticsRecordBase {
+  readonly type: 'session-start';
+  readonly reason: 'attach' | 'visible';
+  readonly view: readonly number[];
+}
+
+/** The reader stopped reading: the page was hidden, tracking stopped or the book went */
+export interface SessionEndRecord extends AnalyticsRecordBase {
+  readonly type: 'session-end';
+  readonly reason: 'hidden' | 'detach' | 'destroy';
+  /** Milliseconds since the session started */
+  readonly duration: number;
+}
+
+/** A page left the view, or the session ended, after being visible for `duration` ms */
+export interface PageViewRecord extends AnalyticsRecordBase {
+  readonly type: 'page-view';
+  readonly page: number;
+  readonly duration: number;
+}
+
+export interface TurnRecord extends AnalyticsRecordBase {
+  readonly type: 'turn';
+  readonly from: number;
+  readonly to: number;
+  readonly source: TurnSource;
+}
+
+/** A page was grabbed and let go without turning */
+export interface DragAbortRecord extends AnalyticsRecordBase {
+  readonly type: 'drag-abort';
+  readonly page: number;
+}
+
+export type AnalyticsRecord =
+  | SessionStartRecord
+  | SessionEndRecord
+  | PageViewRecord
+  | TurnRecord
+  | DragAbortRecord;
+
+export interface AnalyticsOptions {
+  /** Receives the records in the order they were made, a batch at a time */
+  readonly sink: (records: readonly AnalyticsRecord[]) => void;
+  /** Records held before they are sent; defaults to 20 */
+  readonly batchSize?: number;
+  /** Milliseconds after which held records are sent anyway; defaults to 10000, 0 never */
+  readonly flushInterval?: number;
+}
+
+export interface AnalyticsTracker {
+  /** Sends the records held so far */
+  flush(): void;
+  /** Ends the session, sends what is held and stops tracking */
+  detach(): void;
+}
+
+/**
+ * How a linked book takes part: a leader sends its page and ignores the others, a
+ * follower mirrors what it receives and sends nothing, and peers do both
+ */
+export type SyncRole = 'leader' | 'follower' | 'peer';
+
+/** What linked books tell each other; `sender` is the id of the link that sent it */
+export type SyncMessage =
+  /** A book joined and asks for the state of the others */
+  | { readonly type: 'hello'; readonly sender: string }
+  /**
+   * The page and display a book shows, stamped with a logical clock and the id of the
+   * link where the change was made; the higher stamp wins
+   */
+  | {
+      readonly type: 'state';
+      readonly sender: string;
+      readonly clock: number;
+      readonly origin: string;
+      readonly page: number;
+      readonly display: DisplayMode;
+    }
+  /** A corner of `page` is being dragged; `x` and `y` are shares of the page size */
+  | {
+      readonly type: 'drag';
+      readonly sender: string;
+      readonly page: number;
+      readonly corner: Corner;
+      readonly x: number;
+      readonly y: number;
+    }
+  /** The dragged corner of `page` was let go without turning */
+  | { readonly type: 'release'; readonly sender: string; readonly page: number };
+
+/** Carries messages between linked books, for example over a `BroadcastChannel` */
+export interface SyncTransport {
+  /** Delivers `message` to the other ends, not back to this one */
+  send(message: SyncMessage): void;
+  /** Calls `listener` with every message from the other ends; returns a function that stops */
+  listen(listener: (message: SyncMessage) => void): () => void;
+}
+
+export interface SyncOptions {
+  readonly transport: SyncTransport;
+  /** Defaults to `'peer'` */
+  readonly role?: SyncRole;
+  /** Tells this link apart from the others and settles ties; defaults to a random id */
+  readonly id?: string;
+  /** Mirrors corners while they are being dragged; defaults to true */
+  readonly drag?: boolean;
+}
+
+export interface TurnLink {
+  readonly id: string;
+  readonly role: SyncRole;
+  /** Stops mirroring; it also stops when the book is destroyed */
+  unlink(): void;
+}
+
+/** In-memory transport hub, for tests or books on the same page */
+export interface SyncBus {
+  /** A transport whose messages reach every other transport of this bus */
+  connect(): SyncTransport;
+}
+
+/** An option changed through `display()`, `direction()`, `transition()`, `size()` or `disable()` */
+export type TurnOptionChange =
+  | { readonly option: 'display'; readonly value: DisplayMode; readonly previous: DisplayMode }
+  | { readonly option: 'direction'; readonly value: Direction; readonly previous: Direction }
+  | {
+      readonly option: 'transition';
+      readonly value: TransitionMode;
+      readonly previous: TransitionMode;
+    }
+  | { readonly option: 'size'; readonly value: Size; readonly previous: Size }
+  | { readonly option: 'disabled'; readonly value: boolean; readonly previous: boolean };
+
+export interface TurnPluginContext {
+  /** The instance handed out by `createTurn` */
+  readonly instance: TurnInstance;
+  readonly element: HTMLElement;
+  /** The options the book was created with */
+  readonly options: Readonly<TurnOptions>;
+  /** Fires an event on the book, including those a plugin adds to `TurnWhenHandlers` */
+  emit<TName extends TurnEventName>(event: TName, detail: TurnEventDetail<TName>): void;
+}
+
+/**
+ * Extends every book created with it in `TurnOptions.plugins`. Methods a plugin adds are
+ * typed by declaring them on `TurnInstance` through declaration merging.
+ */
+export interface TurnPlugin {
+  /** Tells plugins apart; a book takes each name once */
+  readonly name: string;
+  /** Methods to add to the instance; they may not replace the built-in ones */
+  methods?(context: TurnPluginContext): Partial<TurnInstance>;
+  /** Runs once the book is created, before `createTurn` returns */
+  init?(context: TurnPluginContext): void;
+  optionsChange?(context: TurnPluginContext, change: TurnOptionChange): void;
+  /** Runs with `beforeTurn` and may veto the turn the same way */
+  beforeTurn?(context: TurnPluginContext, from: number, to: number): ReturnType<TurnGuard>;
+  afterTurn?(context: TurnPluginContext, page: number, view: readonly number[]): void;
+  pageAdded?(context: TurnPluginContext, page: number, element: HTMLElement): void;
+  pageRemoved?(context: TurnPluginContext, page: number): void;
+  /** Runs first thing in `destroy()`, while the book is still whole */
+  destroy?(context: TurnPluginContext): void;
 }
 
 export interface Size {
@@ -48,9 +509,12 @@ export interface Range {
 }
 
 export interface TurnInstance {
-  addPage(element: HTMLElement, page?: number): TurnInstance;
+  addPage(element: HTMLElement, page?: number, options?: PageOptions): TurnInstance;
   hasPage(page: number): boolean;
   display(mode?: DisplayMode): DisplayMode | TurnInstance;
+  direction(direction?: Direction): Direction | TurnInstance;
+  /** Switching keeps the page; a turn under way finishes at once */
+  transition(mode?: TransitionMode): TransitionMode | TurnInstance;
   animating(): boolean;
   disable(disabled?: boolean): TurnInstance;
   size(width?: number, height?: number): Size | TurnInstance;
@@ -59,10 +523,31 @@ export interface TurnInstance {
   pages(total?: number): number | TurnInstance;
   range(page?: number): readonly [number, number];
   view(page?: number): readonly number[];
-  page(page?: number): number | TurnInstance;
-  next(): TurnInstance;
-  previous(): TurnInstance;
+  page(page?: number, options?: NavigationOptions): number | TurnInstance;
+  /**
+   * Resolves once `page`, a number or a page id, is in view; calls made while a turn
+   * is running wait for it
+   */
+  goTo(page: number | string, options?: NavigationOptions): Promise<void>;
+  next(options?: NavigationOptions): Promise<void>;
+  previous(options?: NavigationOptions): Promise<void>;
   stop(force?: boolean): TurnInstance;
+  /** Lifts `corner`, by default the one that turns forward, as when it is hovered */
+  peel(corner?: Corner, amount?: number): TurnInstance;
+  unpeel(): TurnInstance;
+  /** Starts turning pages on a timer, replacing any slideshow already running */
+  autoplay(options?: AutoplayOptions): AutoplayController;
+  zoom(level?: number): number | TurnInstance;
+  /** The pages with an id or a label, in page order */
+  toc(): readonly TocEntry[];
+  /** Bookmarks in page order */
+  bookmarks(): readonly Bookmark[];
+  /** Bookmarks `page`, a number or a page id, replacing its bookmark if it has one */
+  addBookmark(page: number | string, label?: string): TurnInstance;
+  removeBookmark(page: number | string): TurnInstance;
+  /** Forgets the progress saved for `persistence`; the next change saves it again */
+  clearProgress(): TurnInstance;
   on<TName extends TurnEventName>(event: TName, handler: NonNullable<TurnWhenHandlers[TName]>): TurnInstance;
   off<TName extends TurnEventName>(event: TName, handler: NonNullable<TurnWhenHandlers[TName]>): TurnInstance;
+  destroy(): void;
 }
@@ -0,0 +1,105 @@
+/**
+ * Frame-based tweening used by the fold and transition animations
+ */
+
+import type { AnimationClock, Easing, EasingName } from '../types.js';
+
+/** Maps the elapsed share of an animation, from 0 to 1, to the share of the change applied */
+export type EasingFunction = (t: number) => number;
+
+/** Circular ease-out, the curve turn.js has always used */
+export const circOut: EasingFunction = t => Math.sqrt(1 - (t - 1) * (t - 1));
+
+export const easings: Readonly<Record<EasingName, EasingFunction>> = {
+  linear: t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - (1 - t) * (1 - t) * (1 - t),
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  'circ-out': circOut
+};
+
+/** The function behind a preset name, or the function itself */
+export const easingFunction = (easing: Easing): EasingFunction => {
+  if (typeof easing === 'function') return easing;
+  if (!Object.hasOwn(easings, easing)) {
+    throw new Error(`"${String(easing)}" is not a value for easing`);
+  }
+  return easings[easing];
+};
+
+/** Paints with `requestAnimationFrame`, or a 60 Hz timer where there is none */
+export const frameClock: AnimationClock = {
+  now: () => performance.now(),
+  requestFrame: callback => {
+    if (typeof requestAnimationFrame === 'function') {
+      const handle = requestAnimationFrame(() => callback());
+      return () => cancelAnimationFrame(handle);
+    }
+    const handle = setTimeout(callback, 1000 / 60);
+    return () => clearTimeout(handle);
+  }
+};
+
+export interface AnimationOptions {
+  readonly from: readonly number[];
+  readonly to: readonly number[];
+  readonly duration: number;
+  readonly frame: (values: number[]) => void;
+  readonly complete?: () => void;
+  readonly easing?: EasingFunction;
+  readonly clock?: AnimationClock;
+  readonly turning?: boolean;
+  readonly hiding?: boolean;
+}
+
+export interface Animation {
+  readonly options: AnimationOptions;
+  readonly running: boolean;
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Creates a stopped animation. `start()` renders the first frame synchronously and
+ * each later frame shows the values for the time elapsed on the clock.
+ */
+export const createAnimation = (options: AnimationOptions): Animation => {
+  const { from, to, duration, frame, easing = circOut, clock = frameClock } = options;
+  let started = 0;
+  let running = false;
+  let cancel: (() => void) | undefined;
+
+  const step = (): void => {
+    cancel = undefined;
+    const t = duration > 0 ? Math.min(1, (clock.now() - started) / duration) : 1;
+    const share = easing(t);
+    frame(from.map((value, i) => value + (to[i] - value) * share));
+    if (!running) return;
+
+    if (t < 1) {
+      cancel = clock.requestFrame(step);
+    } else {
+      running = false;
+      options.complete?.();
+    }
+  };
+
+  const animation: Animation = {
+    options,
+    get running() {
+      return running;
+    },
+    start() {
+      running = true;
+      started = clock.now();
+      step();
+    },
+    stop() {
+      running = false;
+      cancel?.();
+      cancel = undefined;
+    }
+  };
+
+  return animation;
+};
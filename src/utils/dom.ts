@@ -7,11 +7,62 @@ type ElementDataMap = Map<string, unknown>;
 const dataStore = new WeakMap<Element, ElementDataMap>();
 
 /** Gets or creates data storage for an element */
-const getElementData = (el: Element): ElementDataMap => {
+export const getElementData = (el: Element): ElementDataMap => {
   if (!dataStore.has(el)) dataStore.set(el, new Map());
   return dataStore.get(el)!;
 };
 
+/** Drops all data stored for an element */
+export const removeElementData = (el: Element): void => {
+  dataStore.delete(el);
+};
+
+/** Whether the device has a touchscreen, whatever other input it also has */
+export const hasTouch = (): boolean => 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+
+export type StyleMap = Record<string, string | number | null | undefined>;
+
+/** Applies inline styles to a native element, adding `px` to unitless lengths */
+export const setStyle = (el: HTMLElement, styles: StyleMap): void => {
+  Object.entries(styles).forEach(([key, val]) => {
+    if (val === undefined) return;
+    const prop = key.replace(/([A-Z])/g, '-$1').toLowerCase();
+    el.style.setProperty(
+      prop,
+      typeof val === 'number' && !prop.match(/opacity|z-index|font-weight/)
+        ? `${val}px`
+        : String(val ?? '')
+    );
+  });
+};
+
+/** Sets the transform and, optionally, its origin */
+export const setTransform = (el: HTMLElement, transform: string, origin?: string): void => {
+  if (origin) el.style.transformOrigin = origin;
+  el.style.transform = transform;
+};
+
+/** Creates a detached div with an optional class name and inline styles */
+export const createDiv = (className?: string, styles: StyleMap = {}): HTMLDivElement => {
+  const el = document.createElement('div');
+  if (className) el.className = className;
+  setStyle(el, styles);
+  return el;
+};
+
+/** Gets the position of an element relative to the document */
+export const pageOffset = (el: Element): { top: number; left: number } => {
+  const rect = el.getBoundingClientRect();
+  return {
+    top: rect.top + window.scrollY,
+    left: rect.left + window.scrollX
+  };
+};
+
+/** Checks whether an element takes up space in the layout */
+export const isVisible = (el: HTMLElement): boolean =>
+  el.offsetWidth > 0 || el.offsetHeight > 0 || el.getClientRects().length > 0;
+
 export class DOMElement {
   private elements: Element[];
   
@@ -83,14 +134,7 @@ export class DOMElement {
     }
 
     const props = typeof prop === 'string' ? { [prop]: value } : prop;
-    this.elements.forEach(el => {
-      Object.entries(props).forEach(([key, val]) => {
-        (el as HTMLElement).style.setProperty(
-          key.replace(/([A-Z])/g, '-$1').toLowerCase(),
-          typeof val === 'number' && !key.match(/opacity|zIndex|fontWeight/) ? `${val}px` : String(val)
-        );
-      });
-    });
+    this.elements.forEach(el => setStyle(el as HTMLElement, props));
     return this;
   }
 
@@ -230,13 +274,8 @@ export class DOMElement {
 
   /** Gets element offset */
   offset(): { top: number; left: number } {
-    const el = this.elements[0] as HTMLElement;
-    if (!el) return { top: 0, left: 0 };
-    const rect = el.getBoundingClientRect();
-    return {
-      top: rect.top + window.scrollY,
-      left: rect.left + window.scrollX
-    };
+    const el = this.elements[0];
+    return el ? pageOffset(el) : { top: 0, left: 0 };
   }
 
   /** Checks if element is visible */
@@ -270,19 +309,23 @@ interface DOMFactory {
   (selector: string | Element | Element[] | DOMElement | null): DOMElement;
   extend: typeof DOMElement.extend;
   inArray: typeof DOMElement.inArray;
-  isTouch: boolean;
+  /** Read on access, so that loading this module touches no DOM */
+  readonly isTouch: boolean;
 }
 
-export const $: DOMFactory = Object.assign(
-  (selector: string | Element | Element[] | DOMElement | null): DOMElement => {
-    return new DOMElement(selector);
-  },
-  {
-    extend: DOMElement.extend.bind(DOMElement),
-    inArray: DOMElement.inArray.bind(DOMElement),
-    isTouch: 'ontouchstart' in window
-  }
-);
+export const $: DOMFactory = Object.defineProperty(
+  Object.assign(
+    (selector: string | Element | Element[] | DOMElement | null): DOMElement => {
+      return new DOMElement(selector);
+    },
+    {
+      extend: DOMElement.extend.bind(DOMElement),
+      inArray: DOMElement.inArray.bind(DOMElement)
+    }
+  ),
+  'isTouch',
+  { get: hasTouch, enumerable: true }
+) as DOMFactory;
 
 /** Create element helper */
 export function createElement(tag: string, attrs?: Record<string, unknown>): DOMElement {
@@ -302,7 +345,3 @@ export function createElement(tag: string, attrs?: Record<string, unknown>): DOM
   }
   return new DOMElement(el);
 }
-
-// Bind document and window
-export const $document = new DOMElement(document.documentElement);
-export const $window = new DOMElement(window as unknown as Element);
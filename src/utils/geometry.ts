@@ -0,0 +1,63 @@
+/**
+ * Geometry helpers shared by the page-turn engine
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** A color stop as `[offset, color]`, with the offset in the 0..1 range */
+export type GradientStop = readonly [number, string];
+
+export const point = (x: number, y: number): Point => ({ x, y });
+
+/** Gets the point at `t` on a cubic Bezier curve, rounded to whole pixels */
+export const bezier = (p1: Point, p2: Point, p3: Point, p4: Point, t: number): Point => {
+  const mt = 1 - t;
+  const mt3 = mt * mt * mt;
+  const t3 = t * t * t;
+
+  return point(
+    Math.round(mt3 * p1.x + 3 * t * mt * mt * p2.x + 3 * t * t * mt * p3.x + t3 * p4.x),
+    Math.round(mt3 * p1.y + 3 * t * mt * mt * p2.y + 3 * t * t * mt * p3.y + t3 * p4.y)
+  );
+};
+
+export const translate = (x: number, y: number, use3d: boolean): string =>
+  use3d ? ` translate3d(${x}px,${y}px, 0px) ` : ` translate(${x}px, ${y}px) `;
+
+export const rotate = (degrees: number): string => ` rotate(${degrees}deg) `;
+
+/**
+ * Builds a `linear-gradient` for a box of the given size running from `start` to `end`,
+ * both expressed as percentages of the box. Stop offsets are relative to that segment.
+ */
+export const foldGradient = (
+  width: number,
+  height: number,
+  start: Point,
+  end: Point,
+  stops: readonly GradientStop[]
+): string => {
+  const from = point((start.x / 100) * width, (start.y / 100) * height);
+  const to = point((end.x / 100) * width, (end.y / 100) * height);
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const angle = Math.atan2(dy, dx);
+  const normal = angle - Math.PI / 2;
+  const diagonal = Math.abs(width * Math.sin(normal)) + Math.abs(height * Math.cos(normal));
+  const length = Math.sqrt(dx * dx + dy * dy);
+  const corner = point(to.x < from.x ? width : 0, to.y < from.y ? height : 0);
+  const slope = Math.tan(angle);
+  const inverse = -1 / slope;
+  const x = (inverse * corner.x - corner.y - slope * from.x + from.y) / (inverse - slope);
+  const y = inverse * x - inverse * corner.x + corner.y;
+  const offset = Math.sqrt(Math.pow(x - from.x, 2) + Math.pow(y - from.y, 2));
+
+  const colorStops = stops.map(
+    ([position, color]) => ` ${color} ${(100 * (offset + length * position)) / diagonal}%`
+  );
+
+  return `linear-gradient(${angle + Math.PI / 2}rad,${colorStops.join(',')})`;
+};